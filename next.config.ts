@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // PDFKit reads its built-in font metrics from disk relative to its own
+  // module, which breaks once webpack bundles it.
+  // heic-convert loads libheif's WebAssembly build at runtime the same way.
+  // pptxgenjs pulls in Node built-ins through dynamic imports.
+  serverExternalPackages: ["pdfkit", "heic-convert", "pptxgenjs"],
 };
 
 export default nextConfig;
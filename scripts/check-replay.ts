@@ -0,0 +1,165 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { ChatStreamEvent } from "@/lib/types";
+
+/**
+ * Offline regression check for `/api/chat`: every case sends its prompt
+ * through the real route with `AZURE_OPENAI_PROVIDER=replay` and compares the
+ * streamed events with what the recording should produce.
+ *
+ *   npm run check:replay            replay every fixture
+ *   npm run check:replay -- --record  re-record them with the configured
+ *                                     provider (mock unless
+ *                                     AZURE_OPENAI_PROVIDER says otherwise)
+ */
+interface ReplayCase {
+  fixture: string;
+  prompt: string;
+  /** Tools the model calls, in order. */
+  tools: string[];
+  /** Checked against the final assistant message when replaying. */
+  text: RegExp;
+}
+
+const CASES: ReplayCase[] = [
+  {
+    fixture: "fixtures/responses/create-artifact.json",
+    prompt: "Build an artifact with a counter and a reset button.",
+    tools: ["create_artifact"],
+    text: /artifact/i,
+  },
+  {
+    fixture: "fixtures/responses/create-document-csv.json",
+    prompt: "Export the monthly budget as a CSV file.",
+    tools: ["create_document"],
+    text: /\S/,
+  },
+];
+
+const record = process.argv.includes("--record");
+const caseIndex = process.argv.slice(2).find((arg) => /^\d+$/.test(arg));
+
+if (caseIndex === undefined) {
+  runAll();
+} else {
+  runCase(CASES[Number(caseIndex)]).then(
+    (problems) => {
+      problems.forEach((problem) => console.error(`  - ${problem}`));
+      process.exitCode = problems.length ? 1 : 0;
+    },
+    (error) => {
+      console.error(error);
+      process.exitCode = 1;
+    },
+  );
+}
+
+/**
+ * The replay provider is a process-wide singleton that serves interactions
+ * in order, so each fixture gets a fresh process.
+ */
+function runAll() {
+  let failed = 0;
+
+  CASES.forEach((testCase, index) => {
+    const { status } = spawnSync(
+      process.execPath,
+      [...process.execArgv, process.argv[1], String(index), ...(record ? ["--record"] : [])],
+      { stdio: "inherit" },
+    );
+
+    console.log(`${status === 0 ? "ok" : "FAIL"} ${testCase.fixture}`);
+    if (status !== 0) failed += 1;
+  });
+
+  if (failed) {
+    console.error(`${failed} of ${CASES.length} replay check(s) failed.`);
+    process.exitCode = 1;
+  }
+}
+
+async function runCase(testCase: ReplayCase): Promise<string[]> {
+  const fixture = path.resolve(testCase.fixture);
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), "replay-check-"));
+
+  if (record) {
+    rmSync(fixture, { force: true });
+    process.env.AZURE_OPENAI_PROVIDER ??= "mock";
+    process.env.RESPONSES_RECORD_FIXTURE = fixture;
+  } else {
+    process.env.AZURE_OPENAI_PROVIDER = "replay";
+    process.env.RESPONSES_REPLAY_FIXTURE = fixture;
+  }
+  Object.assign(process.env, {
+    CONVERSATION_DIR: path.join(dataDir, "conversations"),
+    ARTIFACT_DIR: path.join(dataDir, "artifacts"),
+    UPLOAD_DIR: path.join(dataDir, "uploads"),
+    GENERATED_DIR: path.join(dataDir, "generated"),
+    URL_SIGNING_SECRET: "replay-check",
+  });
+
+  const problems: string[] = [];
+  const warn = console.warn;
+  console.warn = (...args: unknown[]) => {
+    const line = args.map(String).join(" ");
+    if (line.startsWith("[replay]")) problems.push(line);
+    warn(...args);
+  };
+
+  try {
+    // Imported after the environment is set: the provider is chosen at load.
+    const { NextRequest } = await import("next/server");
+    const { POST } = await import("@/app/api/chat/route");
+    const { readSseEvents } = await import("@/lib/sse");
+
+    const response = await POST(
+      new NextRequest("http://localhost/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messages: [{ id: "replay-user", role: "user", text: testCase.prompt }],
+          stream: true,
+        }),
+      }),
+    );
+
+    if (response.status !== 200 || !response.body) {
+      return [`/api/chat answered ${response.status}: ${await response.text()}`];
+    }
+
+    const events: ChatStreamEvent[] = [];
+    for await (const event of readSseEvents(response.body)) events.push(event);
+
+    const tools = events.flatMap((event) =>
+      event.type === "tool_call" ? [event.name] : [],
+    );
+    const failedTools = events.flatMap((event) =>
+      event.type === "tool_result" && !event.success ? [event.name] : [],
+    );
+    const message = events.findLast((event) => event.type === "message");
+
+    for (const event of events) {
+      if (event.type === "error") problems.push(`error event: ${event.error}`);
+    }
+    if (tools.join() !== testCase.tools.join()) {
+      problems.push(`expected tool calls [${testCase.tools}], got [${tools}]`);
+    }
+    if (failedTools.length) {
+      problems.push(`tool calls failed: ${failedTools.join(", ")}`);
+    }
+    if (!message) {
+      problems.push("no final message event");
+    } else if (!record && !testCase.text.test(message.message.text)) {
+      problems.push(
+        `final message ${JSON.stringify(message.message.text)} does not match ${testCase.text}`,
+      );
+    }
+
+    return problems;
+  } finally {
+    console.warn = warn;
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { getArtifactStore } from "@/lib/artifacts";
+import {
+  ARTIFACT_SANDBOX,
+  artifactContentSecurityPolicy,
+} from "@/lib/artifacts/sandbox";
+import { latestVersion } from "@/lib/artifacts/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+let allowedOrigins: string[] | null = null;
+
+/**
+ * Serves one artifact version (`?version=n`, default latest) as a page for
+ * the artifact iframe. The CSP `sandbox` directive gives it an opaque origin
+ * even when the URL is opened directly, and the policy limits network access
+ * to `ARTIFACT_ALLOWED_ORIGINS`.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const artifact = await getArtifactStore().get(id);
+  const requested = request.nextUrl.searchParams.get("version");
+  const version = requested
+    ? artifact?.versions.find((entry) => String(entry.version) === requested)
+    : artifact && latestVersion(artifact);
+
+  if (!version) {
+    return new Response("Artifact not found", { status: 404 });
+  }
+
+  return new Response(version.fullHtml, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": `sandbox ${ARTIFACT_SANDBOX}; ${artifactContentSecurityPolicy(
+        getAllowedOrigins(),
+      )}`,
+      "X-Content-Type-Options": "nosniff",
+      "Referrer-Policy": "no-referrer",
+      "Permissions-Policy":
+        "camera=(), microphone=(), geolocation=(), payment=(), usb=(), serial=(), hid=()",
+      // A version never changes once stored.
+      "Cache-Control": requested ? "private, max-age=3600" : "no-cache",
+    },
+  });
+}
+
+/**
+ * `ARTIFACT_ALLOWED_ORIGINS` (comma separated), e.g.
+ * `https://cdn.jsdelivr.net,https://*.example.com`. Anything that is not a
+ * plain http(s) origin is ignored so it cannot smuggle extra directives into
+ * the policy.
+ */
+function getAllowedOrigins() {
+  if (!allowedOrigins) {
+    allowedOrigins = (process.env.ARTIFACT_ALLOWED_ORIGINS ?? "")
+      .split(",")
+      .map((origin) => origin.trim().replace(/\/+$/, ""))
+      .filter((origin) => {
+        if (!origin) return false;
+        if (/^https?:\/\/(\*\.)?[a-z0-9.-]+(:\d+)?$/i.test(origin)) return true;
+        console.warn(
+          `[artifacts] Ignoring invalid ARTIFACT_ALLOWED_ORIGINS entry "${origin}".`,
+        );
+        return false;
+      });
+  }
+  return allowedOrigins;
+}
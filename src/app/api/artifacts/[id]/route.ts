@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getArtifactStore } from "@/lib/artifacts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Returns an artifact with its whole version history, oldest first.
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const artifact = await getArtifactStore().get(id);
+
+  if (!artifact) {
+    return NextResponse.json({ error: "Artifact not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ artifact }, { status: 200 });
+}
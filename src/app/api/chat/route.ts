@@ -1,21 +1,65 @@
 import { NextRequest, NextResponse } from "next/server";
-import { readFile } from "node:fs/promises";
 import path from "node:path";
 import { randomUUID } from "node:crypto";
 import { z } from "zod";
-import sanitizeHtml from "sanitize-html";
-import { azureClient, defaultDeployment } from "@/lib/azureClient";
-import { UPLOAD_DIR, ensureDirectories } from "@/lib/fsUtils";
+import { APIError } from "openai";
+import { isProviderConfigured, responsesProvider } from "@/lib/azureClient";
+import {
+  findDeployment,
+  getDefaultDeployment,
+  validateModelOptions,
+} from "@/lib/deployments";
+import { getBlobStore } from "@/lib/storage";
+import { getConversationStore } from "@/lib/conversations";
+import { addResponseUsage, emptyUsage } from "@/lib/usage";
+import { estimateCostUsd } from "@/lib/pricing";
+import {
+  AzureCallError,
+  ClassifiedAzureError,
+  classifyAzureError,
+  withRetry,
+} from "@/lib/azureErrors";
+import {
+  BudgetedMessage,
+  ContextBudget,
+  fitMessagesToBudget,
+  getContextBudget,
+  hasElisions,
+  sampleText,
+} from "@/lib/contextBudget";
+import { getRetrievalOptions } from "@/lib/retrieval";
 import {
   Artifact,
+  ChatErrorCode,
+  ChatErrorPayload,
+  ChatMessage,
   ChatRequestPayload,
   ChatResponsePayload,
+  ChatStreamEvent,
+  ContextReport,
+  Conversation,
+  DeploymentInfo,
   GeneratedFile,
+  TokenUsage,
+  ToolBudgetStop,
   UploadedFileMetadata,
 } from "@/lib/types";
-import { createDocumentFile } from "@/lib/documentFactory";
 import { isTextLikeFile } from "@/lib/fileClassification";
-import type { Response as OpenAIResponse } from "openai/resources/responses/responses";
+import { encodeSseEvent } from "@/lib/sse";
+import {
+  executeToolCall,
+  getEnabledTools,
+  isRegisteredTool,
+  listToolNames,
+  toFunctionTool,
+} from "@/lib/tools/registry";
+import { getToolLoopLimits } from "@/lib/tools/limits";
+import { ChatTool, ChatToolResult } from "@/lib/tools/types";
+import type {
+  Response as OpenAIResponse,
+  ResponseCreateParamsNonStreaming,
+  ResponseFunctionToolCall,
+} from "openai/resources/responses/responses";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -30,9 +74,20 @@ const attachmentSchema = z.object({
   category: z.union([
     z.literal("image"),
     z.literal("text"),
+    z.literal("document"),
     z.literal("other"),
   ]),
   textPreview: z.string().optional(),
+  extractedTextFilename: z.string().optional(),
+  searchIndexFilename: z.string().optional(),
+  sha256: z.string().optional(),
+  deduplicated: z.boolean().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  thumbnailUrl: z.string().optional(),
+  detail: z
+    .union([z.literal("auto"), z.literal("low"), z.literal("high")])
+    .optional(),
 });
 
 const messageSchema = z.object({
@@ -43,283 +98,620 @@ const messageSchema = z.object({
 });
 
 const requestSchema = z.object({
+  conversationId: z.string().optional(),
   messages: z.array(messageSchema).min(1),
   temperature: z.number().min(0).max(2).optional(),
+  model: z.string().min(1).optional(),
+  reasoningEffort: z
+    .union([
+      z.literal("minimal"),
+      z.literal("low"),
+      z.literal("medium"),
+      z.literal("high"),
+    ])
+    .optional(),
+  maxOutputTokens: z.number().int().min(16).optional(),
+  stream: z.boolean().optional(),
+  tools: z
+    .array(z.string())
+    .refine((names) => names.every(isRegisteredTool), {
+      message: `Tools must be drawn from: ${listToolNames().join(", ")}`,
+    })
+    .optional(),
 });
 
-const artifactArgsSchema = z.object({
-  title: z.string().min(1).max(120),
-  description: z.string().optional(),
-  html: z.string().min(1),
-  css: z.string().optional(),
-  js: z.string().optional(),
-});
+type ChatStreamEmitter = (event: ChatStreamEvent) => void;
 
-const documentArgsSchema = z.object({
-  filename: z.string().min(1),
-  type: z.union([
-    z.literal("pdf"),
-    z.literal("docx"),
-    z.literal("txt"),
-    z.literal("csv"),
-    z.literal("md"),
-  ]),
-  content: z.string().min(1),
-  summary: z.string().optional(),
-});
+interface ChatRunOptions {
+  emit?: ChatStreamEmitter;
+  signal?: AbortSignal;
+}
+
+interface ChatTurn {
+  body: ChatRequestPayload;
+  conversation: Conversation | null;
+}
+
+interface ChatRunResult {
+  response: OpenAIResponse;
+  artifacts: Artifact[];
+  generatedFiles: GeneratedFile[];
+  budgetExceeded?: ToolBudgetStop;
+  usage: TokenUsage;
+  contextReport?: ContextReport;
+  model: string;
+}
+
+interface ToolCallContext extends ChatRunOptions {
+  tools: ChatTool[];
+  allowedCalls: number;
+  timeoutMs: number;
+  attachments: UploadedFileMetadata[];
+  artifacts: Artifact[];
+  generatedFiles: GeneratedFile[];
+}
 
 export async function POST(request: NextRequest) {
-  if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
-    return NextResponse.json(
-      { error: "Azure OpenAI environment variables are not configured." },
-      { status: 500 },
+  if (!isProviderConfigured()) {
+    return errorResponse(
+      {
+        error: "Azure OpenAI environment variables are not configured.",
+        code: "config_error",
+      },
+      500,
     );
   }
 
-  await ensureDirectories();
-
   let body: ChatRequestPayload;
 
   try {
     body = requestSchema.parse(await request.json());
   } catch (error) {
     if (error instanceof z.ZodError) {
-      return NextResponse.json(
+      return errorResponse(
         {
           error: "Invalid request payload.",
+          code: "invalid_request",
           details: error.flatten(),
         },
-        { status: 400 },
+        400,
       );
     }
 
-    return NextResponse.json(
-      { error: "Unable to parse request payload." },
-      { status: 400 },
+    return errorResponse(
+      { error: "Unable to parse request payload.", code: "invalid_request" },
+      400,
     );
   }
 
-  try {
-    const { response, artifacts, generatedFiles } =
-      await runResponsesCall(body);
+  const modelProblems = validateModelOptions(body);
 
-    const assistantText = extractAssistantText(response) ?? "";
+  if (modelProblems.length) {
+    return errorResponse(
+      {
+        error: "Invalid model options.",
+        code: "invalid_request",
+        details: { formErrors: modelProblems },
+      },
+      400,
+    );
+  }
 
-    const chatMessage: ChatResponsePayload["message"] = {
-      id: randomUUID(),
-      role: "assistant",
-      text: assistantText,
-      createdAt: new Date().toISOString(),
-      artifacts,
-      generatedFiles,
-    };
+  let conversation: Conversation | null = null;
+
+  if (body.conversationId) {
+    conversation = await getConversationStore().get(body.conversationId);
+
+    if (!conversation) {
+      return errorResponse(
+        { error: "Conversation not found.", code: "invalid_request" },
+        404,
+      );
+    }
+  }
+
+  const turn: ChatTurn = { body, conversation };
+
+  if (body.stream) {
+    return streamChatResponse(turn, request.signal);
+  }
+
+  try {
+    const result = await runResponsesCall(turn, { signal: request.signal });
 
-    return NextResponse.json({ message: chatMessage }, { status: 200 });
-  } catch (error) {
-    console.error("[chat] Azure call failed", error);
     return NextResponse.json(
-      {
-        error: "Failed to generate a response from Azure OpenAI.",
-        details:
-          error instanceof Error ? { message: error.message } : undefined,
-      },
-      { status: 500 },
+      { message: await completeTurn(turn, result) },
+      { status: 200 },
     );
+  } catch (error) {
+    if (request.signal.aborted) {
+      console.info("[chat] Request cancelled by the client");
+      return new Response(null, { status: 499 });
+    }
+
+    console.error("[chat] Azure call failed", error);
+    const classified = classifyAzureError(error);
+    return errorResponse(toErrorPayload(classified, error), classified.status);
   }
 }
 
-async function runResponsesCall(body: ChatRequestPayload) {
-  const tools = getFunctionTools();
-  const azureInput = await buildAzureInput(body.messages);
+function errorResponse(payload: ChatErrorPayload, status: number) {
+  return NextResponse.json(payload, {
+    status,
+    headers:
+      payload.retryAfterSeconds !== undefined
+        ? { "Retry-After": String(payload.retryAfterSeconds) }
+        : undefined,
+  });
+}
 
-  let response = await azureClient.responses.create({
-    model: defaultDeployment,
-    input: azureInput,
-    temperature: body.temperature ?? 0.4,
-    tools,
-    reasoning: {
-      effort: "medium",
-    },
+function toErrorPayload(
+  classified: ClassifiedAzureError,
+  error: unknown,
+): ChatErrorPayload {
+  return {
+    error: classified.message,
+    code: classified.code,
+    retryAfterSeconds: classified.retryAfterSeconds,
+    details: error instanceof Error ? { message: error.message } : undefined,
+  };
+}
+
+function streamChatResponse(turn: ChatTurn, requestSignal: AbortSignal) {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  let closed = false;
+
+  requestSignal.addEventListener("abort", () => abortController.abort(), {
+    once: true,
   });
 
-  const artifacts: Artifact[] = [];
-  const generatedFiles: GeneratedFile[] = [];
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: ChatStreamEmitter = (event) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(encodeSseEvent(event)));
+      };
+
+      try {
+        const result = await runResponsesCall(turn, {
+          emit,
+          signal: abortController.signal,
+        });
+        emit({ type: "message", message: await completeTurn(turn, result) });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.info("[chat] Streaming request cancelled by the client");
+          return;
+        }
+
+        console.error("[chat] Azure streaming call failed", error);
+        emit({
+          type: "error",
+          ...toErrorPayload(classifyAzureError(error), error),
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abortController.abort();
+    },
+  });
 
-  let toolCallOutputs = await handleToolCalls(response, artifacts, generatedFiles);
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
 
-  while (toolCallOutputs.length) {
-    response = await azureClient.responses.create({
-      model: defaultDeployment,
-      previous_response_id: response.id,
-      input: toolCallOutputs,
-    });
+function buildAssistantMessage({
+  response,
+  artifacts,
+  generatedFiles,
+  budgetExceeded,
+  usage,
+  contextReport,
+  model,
+}: ChatRunResult): ChatResponsePayload["message"] {
+  return {
+    id: randomUUID(),
+    role: "assistant",
+    text: extractAssistantText(response) ?? "",
+    createdAt: new Date().toISOString(),
+    artifacts,
+    generatedFiles,
+    budgetExceeded,
+    usage,
+    contextReport,
+    model,
+  };
+}
 
-    toolCallOutputs = await handleToolCalls(response, artifacts, generatedFiles);
+/**
+ * Builds the assistant message for a finished run and, for stored
+ * conversations, persists the turn together with the response id to chain from.
+ */
+async function completeTurn(
+  { body, conversation }: ChatTurn,
+  result: ChatRunResult,
+): Promise<ChatMessage> {
+  const assistantMessage = buildAssistantMessage(result);
+
+  if (conversation) {
+    const createdAt = new Date().toISOString();
+    const userMessages: ChatMessage[] = body.messages.map((message) => ({
+      ...message,
+      createdAt,
+    }));
+
+    await getConversationStore().appendTurn(
+      conversation.id,
+      [...userMessages, assistantMessage],
+      result.response.id,
+    );
   }
 
-  return { response, artifacts, generatedFiles };
+  return assistantMessage;
 }
 
-async function handleToolCalls(
-  response: OpenAIResponse,
-  artifacts: Artifact[],
-  generatedFiles: GeneratedFile[],
-) {
-  const toolOutputs: Array<{
-    type: "function_call_output";
-    call_id: string;
-    output: string;
-  }> = [];
+async function runResponsesCall(
+  { body, conversation }: ChatTurn,
+  options: ChatRunOptions = {},
+): Promise<ChatRunResult> {
+  const limits = getToolLoopLimits();
+  const enabledTools = getEnabledTools(body.tools);
+  const functionTools = enabledTools.map(toFunctionTool);
+  const contextBudget = getContextBudget();
+  const deployment = body.model
+    ? findDeployment(body.model) ?? getDefaultDeployment()
+    : getDefaultDeployment();
+  // Shared by every call in the tool loop; `previous_response_id` does not
+  // carry these settings over.
+  const modelParams = {
+    model: deployment.name,
+    max_output_tokens: body.maxOutputTokens,
+    reasoning: deployment.reasoning
+      ? { effort: body.reasoningEffort ?? "medium" }
+      : undefined,
+  } satisfies Partial<ResponseCreateParamsNonStreaming>;
+  let contextReport: ContextReport | undefined;
+  const attachments = collectAttachments([
+    ...(conversation?.messages ?? []),
+    ...body.messages,
+  ]);
+
+  const createInitialResponse = async (previousResponseId?: string) => {
+    const history =
+      conversation && !previousResponseId ? conversation.messages : [];
+    const { input, report } = await buildAzureInput(
+      [...history, ...body.messages],
+      contextBudget,
+      deployment,
+    );
+    contextReport = hasElisions(report) ? report : undefined;
 
-  for (const output of response.output ?? []) {
-    if (output.type !== "function_call") {
-      continue;
-    }
+    return createResponse(
+      {
+        ...modelParams,
+        input,
+        previous_response_id: previousResponseId,
+        // Chained turns are not re-sent by us, so let Azure drop the oldest
+        // items if the stored history outgrows the context window.
+        truncation: previousResponseId ? "auto" : undefined,
+        temperature: deployment.temperature
+          ? body.temperature ?? 0.4
+          : undefined,
+        tools: functionTools,
+      },
+      options,
+    );
+  };
 
-    const { name, call_id, arguments: args } = output;
+  let response: OpenAIResponse;
 
-    if (!call_id) {
-      continue;
+  try {
+    response = await createInitialResponse(conversation?.lastResponseId);
+  } catch (error) {
+    // Stored responses expire; fall back to replaying the saved transcript.
+    if (!conversation?.lastResponseId || !isMissingPreviousResponse(error)) {
+      throw error;
     }
 
-    if (name === "create_artifact") {
-      const result = await executeCreateArtifact(args ?? "{}", artifacts);
-      toolOutputs.push({
-        type: "function_call_output",
-        call_id,
-        output: JSON.stringify(result),
-      });
-    } else if (name === "create_document") {
-      const result = await executeCreateDocument(args ?? "{}", generatedFiles);
-      toolOutputs.push({
-        type: "function_call_output",
-        call_id,
-        output: JSON.stringify(result),
-      });
-    } else {
-      toolOutputs.push({
-        type: "function_call_output",
-        call_id,
-        output: JSON.stringify({
-          error: `Unknown function: ${name}`,
-        }),
-      });
+    console.warn(
+      `[chat] Previous response for conversation ${conversation.id} is unavailable, replaying transcript`,
+    );
+    response = await createInitialResponse();
+  }
+
+  let usage = addResponseUsage(emptyUsage(), response.usage);
+  const artifacts: Artifact[] = [];
+  const generatedFiles: GeneratedFile[] = [];
+  let budgetExceeded: ToolBudgetStop | undefined;
+  let iterations = 0;
+  let toolCallCount = 0;
+
+  let functionCalls = getFunctionCalls(response);
+
+  while (functionCalls.length) {
+    iterations += 1;
+    const remainingCalls = limits.maxToolCalls - toolCallCount;
+
+    if (iterations > limits.maxIterations) {
+      budgetExceeded = { reason: "max_iterations", limit: limits.maxIterations };
+    } else if (functionCalls.length > remainingCalls) {
+      budgetExceeded = { reason: "max_tool_calls", limit: limits.maxToolCalls };
     }
+
+    const allowedCalls =
+      budgetExceeded?.reason === "max_iterations"
+        ? 0
+        : Math.min(functionCalls.length, remainingCalls);
+
+    const toolCallOutputs = await handleToolCalls(functionCalls, {
+      tools: enabledTools,
+      allowedCalls,
+      timeoutMs: limits.toolTimeoutMs,
+      attachments,
+      artifacts,
+      generatedFiles,
+      ...options,
+    });
+    toolCallCount += allowedCalls;
+
+    // Once a budget is hit the model gets one last turn without tools so it
+    // can summarise what it managed to do.
+    response = await createResponse(
+      {
+        ...modelParams,
+        previous_response_id: response.id,
+        input: toolCallOutputs,
+        tools: budgetExceeded ? undefined : functionTools,
+      },
+      options,
+    );
+    usage = addResponseUsage(usage, response.usage);
+
+    if (budgetExceeded) break;
+
+    functionCalls = getFunctionCalls(response);
   }
 
-  return toolOutputs;
+  return {
+    response,
+    artifacts,
+    generatedFiles,
+    budgetExceeded,
+    usage: {
+      ...usage,
+      estimatedCostUsd: estimateCostUsd(deployment.name, usage),
+    },
+    contextReport,
+    model: deployment.name,
+  };
 }
 
-async function executeCreateArtifact(rawArgs: string, artifacts: Artifact[]) {
-  const jsonArgs = safeJsonParse(rawArgs);
-  const parsed = artifactArgsSchema.safeParse(jsonArgs ?? {});
+/**
+ * Issues a Responses API call, retrying transient failures. Without an emitter
+ * this is a plain request; with one, the call is streamed and text deltas and
+ * tool-call starts are forwarded as they arrive before resolving to the
+ * completed response. A streamed call is only retried if nothing has been
+ * forwarded yet, so the client never sees duplicated text.
+ */
+async function createResponse(
+  params: ResponseCreateParamsNonStreaming,
+  { emit, signal }: ChatRunOptions,
+): Promise<OpenAIResponse> {
+  let forwarded = false;
+
+  return withRetry(
+    async () => {
+      if (!emit) {
+        return assertNotFiltered(
+          await responsesProvider.create(params, { signal }),
+        );
+      }
 
-  if (!parsed.success) {
-    const errorDetail = parsed.error.flatten().fieldErrors;
-    return { success: false, error: "Invalid artifact arguments", errorDetail };
-  }
+      const stream = await responsesProvider.stream(params, { signal });
+
+      let completed: OpenAIResponse | null = null;
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case "response.output_text.delta": {
+            forwarded = true;
+            emit({ type: "text_delta", delta: event.delta });
+            break;
+          }
+          case "response.output_item.added": {
+            if (event.item.type === "function_call") {
+              forwarded = true;
+              emit({
+                type: "tool_call",
+                callId: event.item.call_id,
+                name: event.item.name,
+              });
+            }
+            break;
+          }
+          case "response.completed":
+          case "response.incomplete": {
+            completed = assertNotFiltered(event.response);
+            break;
+          }
+          case "response.failed": {
+            throw new AzureCallError(
+              errorCodeFromStream(event.response.error?.code),
+              event.response.error?.message ?? "Azure OpenAI response failed.",
+            );
+          }
+          case "error": {
+            throw new AzureCallError(
+              errorCodeFromStream(event.code),
+              event.message,
+            );
+          }
+        }
+      }
 
-  const { html, css, js, title, description } = parsed.data;
-
-  const previewHtml = sanitizeHtml(
-    `<style>${css ?? ""}</style>${html}`,
-    {
-      allowedTags: sanitizeHtml.defaults.allowedTags.concat([
-        "img",
-        "svg",
-        "path",
-        "circle",
-        "line",
-        "polyline",
-        "polygon",
-        "style",
-        "canvas",
-      ]),
-      allowedAttributes: {
-        ...sanitizeHtml.defaults.allowedAttributes,
-        "*": (sanitizeHtml.defaults.allowedAttributes["*"] ?? []).concat([
-          "style",
-          "class",
-          "id",
-          "data-*",
-        ]),
-      },
+      if (!completed) {
+        throw new AzureCallError(
+          "transient",
+          "Azure OpenAI stream ended before the response completed.",
+        );
+      }
+
+      return completed;
     },
+    { signal, shouldRetry: () => !forwarded },
   );
+}
 
-  const fullHtml = [
-    "<!DOCTYPE html>",
-    "<html>",
-    "<head>",
-    '<meta charset="utf-8" />',
-    "<style>",
-    css ?? "",
-    "</style>",
-    "</head>",
-    "<body>",
-    html,
-    js
-      ? `<script type="module">\n${js}\n</script>`
-      : "",
-    "</body>",
-    "</html>",
-  ]
-    .filter(Boolean)
-    .join("\n");
-
-  const artifact: Artifact = {
-    id: randomUUID(),
-    title,
-    description,
-    previewHtml,
-    fullHtml,
-  };
+function assertNotFiltered(response: OpenAIResponse) {
+  if (response.incomplete_details?.reason === "content_filter") {
+    throw new AzureCallError(
+      "content_filtered",
+      "The response was stopped by the Azure content filter.",
+    );
+  }
+  return response;
+}
+
+function errorCodeFromStream(code: string | null | undefined): ChatErrorCode {
+  switch (code) {
+    case "rate_limit_exceeded":
+      return "rate_limited";
+    case "server_error":
+    case "vector_store_timeout":
+      return "transient";
+    case "content_filter":
+      return "content_filtered";
+    case "context_length_exceeded":
+      return "context_length_exceeded";
+    default:
+      return "unknown";
+  }
+}
 
-  artifacts.push(artifact);
+function isMissingPreviousResponse(error: unknown) {
+  return (
+    error instanceof APIError &&
+    (error.status === 404 || error.code === "previous_response_not_found")
+  );
+}
 
-  return { success: true, artifactId: artifact.id };
+function getFunctionCalls(response: OpenAIResponse): ResponseFunctionToolCall[] {
+  return (response.output ?? []).filter(
+    (output): output is ResponseFunctionToolCall =>
+      output.type === "function_call" && Boolean(output.call_id),
+  );
 }
 
-async function executeCreateDocument(
-  rawArgs: string,
-  generatedFiles: GeneratedFile[],
+/**
+ * Runs the function calls from one response concurrently. Calls beyond
+ * `allowedCalls` are not executed and report the exhausted budget instead.
+ * Outputs keep the order in which the model issued the calls.
+ */
+async function handleToolCalls(
+  functionCalls: ResponseFunctionToolCall[],
+  {
+    tools,
+    allowedCalls,
+    timeoutMs,
+    attachments,
+    artifacts,
+    generatedFiles,
+    emit,
+    signal,
+  }: ToolCallContext,
 ) {
-  const jsonArgs = safeJsonParse(rawArgs);
-  const parsed = documentArgsSchema.safeParse(jsonArgs ?? {});
+  const results = await Promise.all(
+    functionCalls.map(async ({ name, call_id, arguments: args }, index) => {
+      const result =
+        index < allowedCalls
+          ? await executeToolCall(tools, name, args ?? "{}", {
+              signal,
+              timeoutMs,
+              attachments,
+            })
+          : budgetExceededResult(name);
+
+      emit?.({
+        type: "tool_result",
+        callId: call_id,
+        name,
+        success: result.output.success,
+        artifact: result.artifact,
+        generatedFile: result.generatedFile,
+      });
 
-  if (!parsed.success) {
-    return {
-      success: false,
-      error: "Invalid document arguments",
-      errorDetail: parsed.error.flatten().fieldErrors,
-    };
-  }
+      return { call_id, result };
+    }),
+  );
 
-  const result = await createDocumentFile(parsed.data);
-  const downloadUrl = `/api/generated/${result.storedFilename}`;
+  return results.map(({ call_id, result }) => {
+    if (result.artifact) artifacts.push(result.artifact);
+    if (result.generatedFile) generatedFiles.push(result.generatedFile);
 
-  const generated: GeneratedFile = {
-    id: result.id,
-    filename: result.filename,
-    type: result.type,
-    storedFilename: result.storedFilename,
-    downloadUrl,
-    summary: parsed.data.summary,
-  };
+    return {
+      type: "function_call_output" as const,
+      call_id,
+      output: JSON.stringify(result.output),
+    };
+  });
+}
 
-  generatedFiles.push(generated);
+/**
+ * Attachments across the given messages, once per id (identical uploads share
+ * an id).
+ */
+function collectAttachments(
+  messages: Array<{ attachments?: UploadedFileMetadata[] }>,
+) {
+  const byId = new Map<string, UploadedFileMetadata>();
+  for (const message of messages) {
+    for (const attachment of message.attachments ?? []) {
+      byId.set(attachment.id, attachment);
+    }
+  }
+  return [...byId.values()];
+}
 
+function budgetExceededResult(name: string): ChatToolResult {
   return {
-    success: true,
-    fileId: result.id,
-    downloadUrl,
-    filename: result.filename,
+    output: {
+      success: false,
+      error: {
+        code: "budget_exceeded",
+        message: `${name} was not run because the tool-call budget for this turn is exhausted.`,
+      },
+    },
   };
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function buildAzureInput(messages: ChatRequestPayload["messages"]): Promise<any> {
-  const azureMessages: Array<Record<string, unknown>> = [];
+/**
+ * Converts chat messages into Responses API input, sampling oversized text
+ * attachments and dropping the oldest turns when the estimate exceeds the
+ * context budget. The report lists everything that was elided.
+ */
+async function buildAzureInput(
+  messages: Array<
+    ChatRequestPayload["messages"][number] & Pick<ChatMessage, "artifacts">
+  >,
+  budget: ContextBudget,
+  deployment: DeploymentInfo,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ input: any; report: ContextReport }> {
+  const azureMessages: BudgetedMessage[] = [];
+  const truncatedAttachments: ContextReport["truncatedAttachments"] = [];
 
   for (const message of messages) {
     const contentParts: Array<Record<string, unknown>> = [];
@@ -329,6 +721,15 @@ async function buildAzureInput(messages: ChatRequestPayload["messages"]): Promis
         type: "output_text",
         text: message.text,
       });
+      // Replayed transcripts lack the tool outputs, so name the stored
+      // artifacts the model may want to change with update_artifact.
+      for (const artifact of message.artifacts ?? []) {
+        if (!artifact.version) continue;
+        contentParts.push({
+          type: "output_text",
+          text: `Artifact "${artifact.title}" (Artifact ID: ${artifact.id}, version ${artifact.version})`,
+        });
+      }
     } else {
       contentParts.push({
         type: "input_text",
@@ -338,11 +739,27 @@ async function buildAzureInput(messages: ChatRequestPayload["messages"]): Promis
 
     if (message.attachments?.length) {
       const attachmentParts = await Promise.all(
-        message.attachments.map((attachment) =>
-          mapAttachmentToContentPart(attachment),
-        ),
+        message.attachments.map(async (attachment) => {
+          const part = await mapAttachmentToContentPart(
+            attachment,
+            budget,
+            deployment,
+            truncatedAttachments,
+          );
+          // Image parts carry no text, so label them with the id that
+          // create_document uses to embed the image.
+          return part.type === "input_image"
+            ? [
+                {
+                  type: "input_text",
+                  text: `Image "${attachment.originalName}" (Attachment ID: ${attachment.id})`,
+                },
+                part,
+              ]
+            : [part];
+        }),
       );
-      contentParts.push(...attachmentParts);
+      contentParts.push(...attachmentParts.flat());
     }
 
     azureMessages.push({
@@ -351,44 +768,105 @@ async function buildAzureInput(messages: ChatRequestPayload["messages"]): Promis
     });
   }
 
-  return azureMessages;
+  const fitted = fitMessagesToBudget(azureMessages, budget.maxInputTokens);
+
+  return {
+    input: fitted.messages,
+    report: {
+      estimatedInputTokens: fitted.estimatedTokens,
+      budgetTokens: budget.maxInputTokens,
+      droppedMessages: fitted.droppedMessages,
+      truncatedAttachments,
+    },
+  };
 }
 
 async function mapAttachmentToContentPart(
   attachment: UploadedFileMetadata,
+  budget: ContextBudget,
+  deployment: DeploymentInfo,
+  truncatedAttachments: ContextReport["truncatedAttachments"],
 ): Promise<Record<string, unknown>> {
-  const fullPath = path.join(UPLOAD_DIR, attachment.storedFilename);
-  let fileBuffer: Buffer;
+  // Documents are sent as the text extracted at upload time, not the binary.
+  const sourceFilename =
+    attachment.category === "document" && attachment.extractedTextFilename
+      ? path.basename(attachment.extractedTextFilename)
+      : attachment.storedFilename;
+  let fileBuffer: Buffer | null;
 
   try {
-    fileBuffer = await readFile(fullPath);
+    fileBuffer = await getBlobStore().get("uploads", sourceFilename);
   } catch (error) {
     console.warn(
       `[chat] Failed to read attachment ${attachment.storedFilename}`,
       error,
     );
+    fileBuffer = null;
+  }
+
+  if (!fileBuffer) {
     return {
       type: "input_text",
       text: `Attachment "${attachment.originalName}" could not be loaded from the server.`,
     };
   }
 
+  if (attachment.category === "image" && !deployment.vision) {
+    return {
+      type: "input_text",
+      text: `Image "${attachment.originalName}" is attached, but the selected deployment (${deployment.name}) cannot view images.`,
+    };
+  }
+
   if (attachment.category === "image") {
     const base64 = fileBuffer.toString("base64");
     return {
       type: "input_image",
       image_url: `data:${attachment.mimeType};base64,${base64}`,
+      detail: attachment.detail ?? "auto",
     };
   }
 
-  if (attachment.category === "text" || isTextLikeFile(attachment.mimeType, attachment.originalName)) {
-    const text = fileBuffer.toString("utf-8");
+  if (
+    attachment.category === "text" ||
+    attachment.category === "document" ||
+    isTextLikeFile(attachment.mimeType, attachment.originalName)
+  ) {
+    // Indexed files only inline a short preview; the rest is reached through
+    // the search_attachments tool.
+    const indexed = Boolean(attachment.searchIndexFilename);
+    const sampled = sampleText(
+      fileBuffer.toString("utf-8"),
+      indexed
+        ? Math.min(getRetrievalOptions().previewTokens, budget.maxAttachmentTokens)
+        : budget.maxAttachmentTokens,
+    );
+
+    if (sampled.truncated) {
+      truncatedAttachments.push({
+        attachmentId: attachment.id,
+        name: attachment.originalName,
+        originalTokens: sampled.originalTokens,
+        keptTokens: sampled.keptTokens,
+      });
+    }
+
     const structured = [
       `File Name: ${attachment.originalName}`,
       `MIME Type: ${attachment.mimeType}`,
+      `Attachment ID: ${attachment.id}`,
+      ...(sampled.truncated && indexed
+        ? [
+            `Note: this file is ~${sampled.originalTokens} tokens and is indexed for search; only a preview is included below. Call search_attachments with attachmentIds ["${attachment.id}"] to retrieve relevant passages with line numbers.`,
+          ]
+        : sampled.truncated
+          ? [
+              `Note: this file is ~${sampled.originalTokens} tokens; only its beginning and end are included below.`,
+            ]
+          : []),
       "",
       "Contents:",
-      text,
+      sampled.text,
     ].join("\n");
     return {
       type: "input_text",
@@ -413,84 +891,3 @@ function extractAssistantText(response: OpenAIResponse) {
   }
   return "";
 }
-
-function getFunctionTools() {
-  return [
-    {
-      type: "function" as const,
-      name: "create_artifact",
-      strict: false,
-      description:
-        "Create an interactive micro-application that can run client-side inside a sandboxed iframe. Provide the HTML, CSS, and optional JavaScript needed.",
-      parameters: {
-        type: "object" as const,
-        properties: {
-          title: {
-            type: "string" as const,
-            description: "Short name for the artifact card.",
-          },
-          description: {
-            type: "string" as const,
-            description: "Optional description for the artifact preview.",
-          },
-          html: {
-            type: "string" as const,
-            description:
-              "Body markup for the micro-application. Keep it self-contained.",
-          },
-          css: {
-            type: "string" as const,
-            description:
-              "Optional CSS to style the artifact. Avoid global resets.",
-          },
-          js: {
-            type: "string" as const,
-            description:
-              "Optional JavaScript that should run when the artifact loads.",
-          },
-        },
-        required: ["title", "html"],
-      },
-    },
-    {
-      type: "function" as const,
-      name: "create_document",
-      strict: false,
-      description:
-        "Create a downloadable document (PDF, DOCX, TXT, CSV, or Markdown) from the provided textual content.",
-      parameters: {
-        type: "object" as const,
-        properties: {
-          filename: {
-            type: "string" as const,
-            description:
-              "Base filename for the generated document without extension.",
-          },
-          type: {
-            type: "string" as const,
-            enum: ["pdf", "docx", "txt", "csv", "md"],
-            description: "File type to generate.",
-          },
-          content: {
-            type: "string" as const,
-            description: "Raw textual content for the file.",
-          },
-          summary: {
-            type: "string" as const,
-            description:
-              "Optional short description of the generated document contents.",
-          },
-        },
-        required: ["filename", "type", "content"],
-      },
-    },
-  ];
-}
-
-function safeJsonParse(input: string): unknown | null {
-  try {
-    return input ? JSON.parse(input) : {};
-  } catch {
-    return null;
-  }
-}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getConversationStore } from "@/lib/conversations";
+import { refreshMessageUrls } from "@/lib/storage/signedUrls";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const updateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const conversation = await getConversationStore().get(id);
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  // Stored links may have expired since the turn was saved.
+  return NextResponse.json(
+    {
+      conversation: {
+        ...conversation,
+        messages: conversation.messages.map(refreshMessageUrls),
+      },
+    },
+    { status: 200 },
+  );
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const parsed = updateSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid request payload.",
+        details: parsed.error.flatten(),
+      },
+      { status: 400 },
+    );
+  }
+
+  const conversation = await getConversationStore().rename(
+    id,
+    parsed.data.title,
+  );
+
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ conversation }, { status: 200 });
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const deleted = await getConversationStore().delete(id);
+
+  if (!deleted) {
+    return NextResponse.json(
+      { error: "Conversation not found." },
+      { status: 404 },
+    );
+  }
+
+  return new Response(null, { status: 204 });
+}
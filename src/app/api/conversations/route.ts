@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { getConversationStore } from "@/lib/conversations";
+import { ChatMessage } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const createSchema = z.object({
+  title: z.string().max(200).optional(),
+  systemPrompt: z.string().min(1).optional(),
+});
+
+export async function GET() {
+  const conversations = await getConversationStore().list();
+  return NextResponse.json({ conversations }, { status: 200 });
+}
+
+export async function POST(request: NextRequest) {
+  let body: z.infer<typeof createSchema>;
+
+  try {
+    body = createSchema.parse(await request.json().catch(() => ({})));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request payload.",
+          details: error.flatten(),
+        },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+
+  const messages: ChatMessage[] = body.systemPrompt
+    ? [
+        {
+          id: randomUUID(),
+          role: "system",
+          text: body.systemPrompt,
+          createdAt: new Date().toISOString(),
+        },
+      ]
+    : [];
+
+  const conversation = await getConversationStore().create({
+    title: body.title,
+    messages,
+  });
+
+  return NextResponse.json({ conversation }, { status: 201 });
+}
@@ -1,7 +1,9 @@
 import { NextRequest } from "next/server";
-import { readFile, stat } from "node:fs/promises";
 import path from "node:path";
-import { GENERATED_DIR } from "@/lib/fsUtils";
+import { getBlobStore } from "@/lib/storage";
+import { blobResponse } from "@/lib/storage/blobResponse";
+import { isValidBlobKey } from "@/lib/storage/blobStore";
+import { rejectUnsignedRequest } from "@/lib/storage/signedUrls";
 
 export const runtime = "nodejs";
 
@@ -9,41 +11,94 @@ const MIME_MAP: Record<string, string> = {
   ".pdf": "application/pdf",
   ".docx":
     "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx":
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".html": "text/html; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
   ".txt": "text/plain; charset=utf-8",
   ".csv": "text/csv; charset=utf-8",
   ".md": "text/markdown; charset=utf-8",
 };
 
+/**
+ * Types a browser can display itself. Everything else is always downloaded,
+ * even with `?inline=1`.
+ */
+const INLINE_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".html": "text/html; charset=utf-8",
+  ".json": "text/plain; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".csv": "text/plain; charset=utf-8",
+  ".md": "text/plain; charset=utf-8",
+};
+
+// Stored keys are `<uuid>-<safe name>`.
+const KEY_PREFIX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-/i;
+
+/**
+ * Serves a generated document as a download, or for previews (`?inline=1`)
+ * inline when the browser can render it. Inline HTML is sandboxed so its
+ * scripts cannot run on this origin. `?name=` sets the offered file name.
+ */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   context: { params: Promise<{ file: string }> },
 ) {
   const params = await context.params;
   const storedFilename = params.file;
-  const fullPath = path.join(GENERATED_DIR, storedFilename);
 
-  if (!fullPath.startsWith(GENERATED_DIR)) {
+  if (!isValidBlobKey(storedFilename)) {
     return new Response("Invalid file path", { status: 400 });
   }
 
-  try {
-    await stat(fullPath);
-  } catch {
-    return new Response("File not found", { status: 404 });
-  }
+  const searchParams = request.nextUrl.searchParams;
+  const denied = rejectUnsignedRequest("generated", storedFilename, searchParams);
+  if (denied) return denied;
 
   const extension = path.extname(storedFilename).toLowerCase();
-  const mimeType = MIME_MAP[extension] ?? "application/octet-stream";
-  const fileBuffer = await readFile(fullPath);
-
-  return new Response(fileBuffer, {
-    status: 200,
-    headers: {
-      "Content-Type": mimeType,
-      "Content-Disposition": `attachment; filename="${storedFilename.replace(
-        /^[^-]+-/,
-        "",
-      )}"`,
-    },
+  const inlineType =
+    searchParams.get("inline") === "1" ? INLINE_TYPES[extension] : undefined;
+
+  return blobResponse(request, "generated", storedFilename, {
+    contentType:
+      inlineType ?? MIME_MAP[extension] ?? "application/octet-stream",
+    disposition: inlineType ? "inline" : "attachment",
+    filename:
+      searchParams.get("name") || storedFilename.replace(KEY_PREFIX, ""),
+    headers:
+      extension === ".html" && inlineType
+        ? { "Content-Security-Policy": "sandbox" }
+        : undefined,
   });
 }
+
+/**
+ * Deletes a generated document. Only the file's signed `deleteUrl` is
+ * accepted; download links get a 403.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ file: string }> },
+) {
+  const { file } = await context.params;
+
+  if (!isValidBlobKey(file)) {
+    return new Response("Invalid file path", { status: 400 });
+  }
+
+  const denied = rejectUnsignedRequest(
+    "generated",
+    file,
+    request.nextUrl.searchParams,
+    "delete",
+  );
+  if (denied) return denied;
+
+  const deleted = await getBlobStore().delete("generated", file);
+
+  return deleted
+    ? new Response(null, { status: 204 })
+    : new Response("File not found", { status: 404 });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getDefaultDeployment, getDeployments } from "@/lib/deployments";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(
+    {
+      deployments: getDeployments(),
+      defaultDeployment: getDefaultDeployment().name,
+    },
+    { status: 200 },
+  );
+}
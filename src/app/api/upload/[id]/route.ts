@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rejectUnsignedRequest } from "@/lib/storage/signedUrls";
+import { releaseUploadClaim } from "@/lib/storage/uploadClaims";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Releases the claim named in an upload's signed `deleteUrl`. The upload and
+ * its derived blobs (thumbnail, extracted text, search index), which all
+ * share the upload id as their key prefix, are deleted once no other upload
+ * or sent message still claims them.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const searchParams = request.nextUrl.searchParams;
+  const claim = searchParams.get("claim") ?? "";
+
+  if (!/^[a-f0-9]{64}$/.test(id)) {
+    return NextResponse.json({ error: "Invalid upload id." }, { status: 400 });
+  }
+
+  const denied = rejectUnsignedRequest(
+    "uploads",
+    `${id}.${claim}`,
+    searchParams,
+    "delete",
+  );
+  if (denied) return denied;
+
+  const released = await releaseUploadClaim(id, claim);
+
+  if (released === "unknown") {
+    return NextResponse.json({ error: "Upload not found." }, { status: 404 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -1,9 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
-import { randomUUID } from "node:crypto";
+import { createHash } from "node:crypto";
 import path from "node:path";
-import { ensureDirectories, saveBuffer, UPLOAD_DIR } from "@/lib/fsUtils";
-import { isImage, isTextLikeFile } from "@/lib/fileClassification";
-import { UploadedFileMetadata } from "@/lib/types";
+import sharp from "sharp";
+import {
+  getExtractableKind,
+  isImage,
+  isTextLikeFile,
+} from "@/lib/fileClassification";
+import { extractDocument, formatExtractedDocument } from "@/lib/extraction";
+import {
+  processedImageType,
+  processImage,
+  THUMBNAIL_MIME_TYPE,
+} from "@/lib/imagePipeline";
+import {
+  buildAttachmentIndex,
+  saveAttachmentIndex,
+  searchIndexFilenameFor,
+  shouldIndex,
+} from "@/lib/retrieval";
+import {
+  BlobStore,
+  getBlobStore,
+  uploadDeleteUrl,
+  uploadUrl,
+} from "@/lib/storage";
+import { addUploadClaim, releaseUploadClaim } from "@/lib/storage/uploadClaims";
+import {
+  extensionForType,
+  getUploadLimits,
+  isAllowedType,
+  resolveUploadType,
+} from "@/lib/uploadValidation";
+import {
+  AttachmentCategory,
+  UploadedFileMetadata,
+  UploadRejection,
+} from "@/lib/types";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,8 +44,21 @@ export const dynamic = "force-dynamic";
 const MAX_TEXT_PREVIEW = 8000;
 
 export async function POST(request: NextRequest) {
-  const formData = await request.formData();
-  const fileEntries = formData.getAll("files");
+  const limits = getUploadLimits();
+  const declaredLength = Number(request.headers.get("content-length") ?? 0);
+
+  if (declaredLength > limits.maxRequestBytes) {
+    return requestTooLarge(limits.maxRequestBytes);
+  }
+
+  const formData = await readFormData(request, limits.maxRequestBytes);
+  if (!formData) {
+    return requestTooLarge(limits.maxRequestBytes);
+  }
+
+  const fileEntries = formData
+    .getAll("files")
+    .filter((entry): entry is File => entry instanceof File);
 
   if (!fileEntries.length) {
     return NextResponse.json(
@@ -21,50 +67,280 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  await ensureDirectories();
+  const totalBytes = fileEntries.reduce((sum, entry) => sum + entry.size, 0);
+  if (totalBytes > limits.maxRequestBytes) {
+    return requestTooLarge(limits.maxRequestBytes);
+  }
 
+  const blobStore = getBlobStore();
   const uploads: UploadedFileMetadata[] = [];
+  const errors: UploadRejection[] = [];
 
   for (const entry of fileEntries) {
-    if (!(entry instanceof File)) {
+    const safeOriginalName = path.basename(entry.name);
+    const reject = (code: UploadRejection["code"], reason: string) =>
+      errors.push({ name: safeOriginalName, code, reason });
+
+    if (entry.size === 0) {
+      reject("empty_file", "The file is empty.");
       continue;
     }
 
-    const safeOriginalName = path.basename(entry.name);
-    const safeName = safeOriginalName.replace(/[^a-zA-Z0-9._-]/g, "_");
-    const fileId = randomUUID();
-    const storedFilename = `${fileId}-${safeName}`;
-
-    const arrayBuffer = await entry.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    await saveBuffer(buffer, UPLOAD_DIR, storedFilename);
-
-    let textPreview: string | undefined;
-    const category = isImage(entry.type)
-      ? "image"
-      : isTextLikeFile(entry.type, safeOriginalName)
-        ? "text"
-        : "other";
-
-    if (category === "text") {
-      textPreview = buffer.toString("utf-8");
-      if (textPreview.length > MAX_TEXT_PREVIEW) {
-        textPreview = `${textPreview.slice(0, MAX_TEXT_PREVIEW)}\n...\n[truncated preview]`;
+    if (entry.size > limits.maxFileBytes) {
+      reject(
+        "file_too_large",
+        `The file is ${formatMegabytes(entry.size)}; the limit is ${formatMegabytes(limits.maxFileBytes)}.`,
+      );
+      continue;
+    }
+
+    const buffer = Buffer.from(await entry.arrayBuffer());
+    const resolved = resolveUploadType(buffer, entry.type ?? "", safeOriginalName);
+
+    if ("code" in resolved) {
+      reject(resolved.code, resolved.reason);
+      continue;
+    }
+
+    const { mimeType } = resolved;
+    if (!isAllowedType(mimeType, limits.allowedTypes)) {
+      reject("type_not_allowed", `Files of type ${mimeType} are not accepted.`);
+      continue;
+    }
+
+    // Content-addressed storage: re-uploading identical bytes reuses the file.
+    const sha256 = createHash("sha256").update(buffer).digest("hex");
+    const claim = await addUploadClaim(sha256);
+
+    // Nothing below may leave the claim behind, or the file is never deleted.
+    try {
+      let image: StoredImage | undefined;
+
+      if (isImage(mimeType)) {
+        try {
+          image = await storeImage(blobStore, buffer, mimeType, sha256);
+        } catch (error) {
+          console.warn(`[upload] Could not process image ${safeOriginalName}:`, error);
+          await releaseUploadClaim(sha256, claim);
+          reject("unreadable_image", "The image could not be decoded.");
+          continue;
+        }
+      }
+
+      const storedFilename =
+        image?.storedFilename ?? `${sha256}${extensionForType(mimeType)}`;
+      const deduplicated =
+        image?.deduplicated ?? (await blobStore.exists("uploads", storedFilename));
+
+      // Rewriting a deduplicated blob also restarts its retention clock.
+      if (!image) {
+        await blobStore.put("uploads", storedFilename, buffer, {
+          contentType: mimeType,
+        });
+      }
+
+      let textPreview: string | undefined;
+      let extractedTextFilename: string | undefined;
+      const extractableKind = getExtractableKind(mimeType, safeOriginalName);
+      let category: AttachmentCategory = isImage(mimeType)
+        ? "image"
+        : extractableKind
+          ? "document"
+          : isTextLikeFile(mimeType, safeOriginalName)
+            ? "text"
+            : "other";
+
+      let searchableText: string | undefined;
+
+      if (category === "text") {
+        searchableText = buffer.toString("utf-8");
+        textPreview = truncatePreview(searchableText);
+      }
+
+      if (category === "document" && extractableKind) {
+        try {
+          const sidecar = `${storedFilename}.extracted.txt`;
+          let extracted = (await blobStore.get("uploads", sidecar))?.toString(
+            "utf-8",
+          );
+
+          if (extracted === undefined) {
+            extracted = formatExtractedDocument(
+              await extractDocument(extractableKind, buffer),
+            );
+            await blobStore.put("uploads", sidecar, Buffer.from(extracted, "utf-8"), {
+              contentType: "text/plain; charset=utf-8",
+            });
+          }
+          extractedTextFilename = sidecar;
+          searchableText = extracted;
+          textPreview = truncatePreview(extracted);
+        } catch (error) {
+          console.warn(
+            `[upload] Text extraction failed for ${safeOriginalName}:`,
+            error,
+          );
+          category = "other";
+        }
       }
+
+      let searchIndexFilename: string | undefined;
+
+      if (searchableText && shouldIndex(searchableText)) {
+        searchIndexFilename = searchIndexFilenameFor(storedFilename);
+        if (!(await blobStore.exists("uploads", searchIndexFilename))) {
+          await saveAttachmentIndex(
+            searchIndexFilename,
+            buildAttachmentIndex(searchableText),
+          );
+        }
+      }
+
+      uploads.push({
+        id: sha256,
+        originalName: safeOriginalName,
+        storedFilename,
+        mimeType: image?.mimeType ?? mimeType,
+        size: image?.size ?? entry.size,
+        publicUrl: uploadUrl(storedFilename),
+        category,
+        textPreview,
+        extractedTextFilename,
+        searchIndexFilename,
+        sha256,
+        deduplicated,
+        width: image?.width,
+        height: image?.height,
+        thumbnailUrl: image ? uploadUrl(image.thumbnailFilename) : undefined,
+        deleteUrl: uploadDeleteUrl(sha256, claim),
+      });
+    } catch (error) {
+      await releaseUploadClaim(sha256, claim);
+      throw error;
     }
+  }
 
-    uploads.push({
-      id: fileId,
-      originalName: safeOriginalName,
-      storedFilename,
-      mimeType: entry.type ?? "application/octet-stream",
-      size: entry.size,
-      publicUrl: `/uploads/${storedFilename}`,
-      category,
-      textPreview,
+  if (!uploads.length) {
+    return NextResponse.json(
+      { error: "None of the files were accepted.", files: uploads, errors },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json({ files: uploads, errors }, { status: 201 });
+}
+
+interface StoredImage {
+  storedFilename: string;
+  thumbnailFilename: string;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+  deduplicated: boolean;
+}
+
+/**
+ * Stores the processed image and its thumbnail under the hash of the original
+ * bytes, reusing both when the same image was uploaded before.
+ */
+async function storeImage(
+  blobStore: BlobStore,
+  buffer: Buffer,
+  mimeType: string,
+  sha256: string,
+): Promise<StoredImage> {
+  const outputType = processedImageType(mimeType);
+  const storedFilename = `${sha256}${extensionForType(outputType)}`;
+  const thumbnailFilename = `${sha256}.thumb${extensionForType(THUMBNAIL_MIME_TYPE)}`;
+
+  const existing = await blobStore.get("uploads", storedFilename);
+
+  if (existing && (await blobStore.exists("uploads", thumbnailFilename))) {
+    await blobStore.put("uploads", storedFilename, existing, {
+      contentType: outputType,
     });
+    const { width = 0, height = 0 } = await sharp(existing).metadata();
+    return {
+      storedFilename,
+      thumbnailFilename,
+      mimeType: outputType,
+      size: existing.length,
+      width,
+      height,
+      deduplicated: true,
+    };
   }
 
-  return NextResponse.json({ files: uploads }, { status: 201 });
+  const processed = await processImage(buffer, mimeType);
+  await blobStore.put("uploads", storedFilename, processed.buffer, {
+    contentType: processed.mimeType,
+  });
+  await blobStore.put("uploads", thumbnailFilename, processed.thumbnail, {
+    contentType: THUMBNAIL_MIME_TYPE,
+  });
+
+  return {
+    storedFilename,
+    thumbnailFilename,
+    mimeType: processed.mimeType,
+    size: processed.buffer.length,
+    width: processed.width,
+    height: processed.height,
+    deduplicated: false,
+  };
+}
+
+/**
+ * Parses the multipart body while counting its bytes, so a request without a
+ * `content-length` header (e.g. chunked) is aborted as soon as it passes
+ * `maxBytes` instead of being buffered in full. Returns `null` when it does.
+ */
+async function readFormData(request: NextRequest, maxBytes: number) {
+  if (!request.body) return request.formData();
+
+  let received = 0;
+  const limited = request.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(new Error("Request body too large."));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+
+  try {
+    return await new Request(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: limited,
+      duplex: "half",
+    } as RequestInit).formData();
+  } catch (error) {
+    if (received > maxBytes) return null;
+    throw error;
+  }
+}
+
+function requestTooLarge(maxRequestBytes: number) {
+  return NextResponse.json(
+    {
+      error: `Uploads are limited to ${formatMegabytes(maxRequestBytes)} per request.`,
+    },
+    { status: 413 },
+  );
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function truncatePreview(text: string) {
+  return text.length > MAX_TEXT_PREVIEW
+    ? `${text.slice(0, MAX_TEXT_PREVIEW)}\n...\n[truncated preview]`
+    : text;
 }
@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import path from "node:path";
+import { getBlobStore } from "@/lib/storage";
+import { isValidBlobKey } from "@/lib/storage/blobStore";
+import { rejectUnsignedRequest } from "@/lib/storage/signedUrls";
+
+export const runtime = "nodejs";
+
+// Upload keys carry a canonical extension chosen at upload time (see
+// `extensionForType`), so the extension is enough to pick the type.
+const MIME_MAP: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx":
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".txt": "text/plain; charset=utf-8",
+  ".md": "text/markdown; charset=utf-8",
+  ".csv": "text/csv; charset=utf-8",
+  ".tsv": "text/tab-separated-values; charset=utf-8",
+  ".json": "application/json",
+  ".xml": "text/plain; charset=utf-8",
+  ".yaml": "text/plain; charset=utf-8",
+};
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ file: string }> },
+) {
+  const { file } = await context.params;
+
+  if (!isValidBlobKey(file)) {
+    return new Response("Invalid file path", { status: 400 });
+  }
+
+  const denied = rejectUnsignedRequest(
+    "uploads",
+    file,
+    request.nextUrl.searchParams,
+  );
+  if (denied) return denied;
+
+  const fileBuffer = await getBlobStore().get("uploads", file);
+
+  if (!fileBuffer) {
+    return new Response("File not found", { status: 404 });
+  }
+
+  return new Response(new Uint8Array(fileBuffer), {
+    status: 200,
+    headers: {
+      "Content-Type":
+        MIME_MAP[path.extname(file).toLowerCase()] ?? "application/octet-stream",
+      "X-Content-Type-Options": "nosniff",
+      // Content under a key never changes, but the link itself expires.
+      "Cache-Control": "private, max-age=3600",
+    },
+  });
+}
@@ -1,19 +1,49 @@
 "use client";
 
-import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ChangeEvent,
+  FormEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import clsx from "clsx";
 import {
   Artifact,
+  ArtifactSource,
+  ArtifactVersion,
+  ChatErrorPayload,
   ChatMessage,
+  ContextReport,
+  Conversation,
+  ConversationSummary,
+  DeploymentInfo,
   GeneratedFile,
+  ImageDetail,
+  ReasoningEffort,
+  StoredArtifact,
+  TokenUsage,
   UploadedFileMetadata,
+  UploadResponsePayload,
 } from "@/lib/types";
+import { diffLines } from "@/lib/artifacts/diff";
+import {
+  ARTIFACT_SANDBOX,
+  artifactFrameUrl,
+  previewDocument,
+  withArtifactPolicy,
+} from "@/lib/artifacts/sandbox";
+import { readSseEvents } from "@/lib/sse";
+import { sumUsage } from "@/lib/usage";
 
 const systemPrompt = [
   "You are Azure Artifact Studio, a multimodal analyst that inspects images and text files uploaded by the user.",
   "When files are provided, incorporate their contents explicitly in your reasoning before responding.",
-  "If the user asks for an interactive demo or visualization, build it with the create_artifact function. Keep artifacts lightweight and client-friendly.",
-  "Use the create_document function whenever the user requests a downloadable asset such as a PDF, DOCX, text, CSV, or Markdown file.",
+  "If the user asks for an interactive demo or visualization, build it with the create_artifact function. Keep artifacts lightweight and client-friendly. When the user asks to change an existing artifact, call update_artifact with its id instead of creating a new one.",
+  "Use the create_document function whenever the user requests a downloadable asset such as a PDF, DOCX, spreadsheet (XLSX), slide deck (PPTX), HTML page, JSON, text, CSV, or Markdown file.",
+  "Large attachments are only previewed; use the search_attachments function to find the passages you need and cite their file and line range.",
   "Provide concise explanations and call out any assumptions you make.",
 ].join(" ");
 
@@ -21,20 +51,101 @@ type PendingAttachment = UploadedFileMetadata;
 
 const createMessageId = () => crypto.randomUUID();
 
+class ChatFailure extends Error {
+  constructor(readonly payload: ChatErrorPayload) {
+    super(payload.error);
+    this.name = "ChatFailure";
+  }
+}
+
+function describeChatError({ code, retryAfterSeconds }: ChatErrorPayload) {
+  switch (code) {
+    case "rate_limited":
+      return retryAfterSeconds !== undefined
+        ? `Azure OpenAI is busy. Retry in ${retryAfterSeconds}s.`
+        : "Azure OpenAI is busy. Wait a moment and retry.";
+    case "content_filtered":
+      return "Your prompt was filtered by the Azure content policy. Rephrase it and try again.";
+    case "context_length_exceeded":
+      return "This conversation is too long for the model. Start a new chat or remove large attachments.";
+    case "auth_error":
+      return "The server's Azure credentials were rejected. Ask an administrator to check the API key.";
+    case "config_error":
+      return "Azure OpenAI isn't configured correctly on the server. Ask an administrator to check the endpoint and deployment.";
+    case "transient":
+      return "Azure OpenAI is temporarily unavailable. Try again in a few seconds.";
+    case "invalid_request":
+      return "The request was rejected. Check the selected model options and try again.";
+    default:
+      return "Something went wrong generating a response. Please try again.";
+  }
+}
+
+const REASONING_EFFORTS: ReasoningEffort[] = ["minimal", "low", "medium", "high"];
+
+const CONVERSATION_STORAGE_KEY = "azure-artifact-studio:conversation-id";
+
+const createSystemMessage = (): ChatMessage => ({
+  id: createMessageId(),
+  role: "system",
+  text: systemPrompt,
+  createdAt: new Date().toISOString(),
+});
+
+const TOOL_LABELS: Record<string, { pending: string; done: string }> = {
+  create_artifact: { pending: "Building artifact…", done: "Artifact ready" },
+  update_artifact: { pending: "Updating artifact…", done: "Artifact updated" },
+  create_document: { pending: "Creating document…", done: "Document ready" },
+  search_attachments: { pending: "Searching attachments…", done: "Search complete" },
+};
+
+const FILE_TYPE_BADGES: Record<GeneratedFile["type"], string> = {
+  pdf: "bg-rose-500/30 text-rose-100",
+  docx: "bg-sky-500/30 text-sky-100",
+  xlsx: "bg-green-500/30 text-green-100",
+  pptx: "bg-orange-500/30 text-orange-100",
+  html: "bg-violet-500/30 text-violet-100",
+  json: "bg-amber-500/30 text-amber-100",
+  txt: "bg-slate-500/30 text-slate-100",
+  csv: "bg-teal-500/30 text-teal-100",
+  md: "bg-indigo-500/30 text-indigo-100",
+};
+
+// Types the generated-file route can serve inline (`?inline=1`).
+const PREVIEWABLE_TYPES = new Set<GeneratedFile["type"]>([
+  "pdf",
+  "html",
+  "json",
+  "txt",
+  "csv",
+  "md",
+]);
+
+function describeToolCall(name: string) {
+  return TOOL_LABELS[name]?.pending ?? `Calling ${name}…`;
+}
+
+function describeToolResult(name: string, success: boolean) {
+  if (!success) return `${name} failed`;
+  return TOOL_LABELS[name]?.done ?? `${name} finished`;
+}
+
 export default function Home() {
   const [messages, setMessages] = useState<ChatMessage[]>(() => [
-    {
-      id: createMessageId(),
-      role: "system",
-      text: systemPrompt,
-      createdAt: new Date().toISOString(),
-    },
+    createSystemMessage(),
   ]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [deployments, setDeployments] = useState<DeploymentInfo[]>([]);
+  const [model, setModel] = useState<string | null>(null);
+  const [reasoningEffort, setReasoningEffort] = useState<ReasoningEffort>("medium");
+  const [maxOutputTokens, setMaxOutputTokens] = useState("");
   const [input, setInput] = useState("");
   const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
   const [isSending, setIsSending] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [toolStatus, setToolStatus] = useState<string | null>(null);
   const [selectedArtifact, setSelectedArtifact] = useState<Artifact | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
 
@@ -43,10 +154,104 @@ export default function Home() {
     [messages],
   );
 
+  // Running conversation total up to and including each assistant message.
+  const runningUsage = useMemo(() => {
+    const totals = new Map<string, TokenUsage>();
+    let total: TokenUsage | null = null;
+
+    for (const message of messages) {
+      if (!message.usage) continue;
+      total = total ? sumUsage(total, message.usage) : message.usage;
+      totals.set(message.id, total);
+    }
+
+    return totals;
+  }, [messages]);
+
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [visibleMessages.length]);
 
+  const selectedDeployment = useMemo(
+    () => deployments.find((deployment) => deployment.name === model) ?? null,
+    [deployments, model],
+  );
+
+  useEffect(() => {
+    fetch("/api/models")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { deployments: DeploymentInfo[]; defaultDeployment: string } | null) => {
+        if (!data) return;
+        setDeployments(data.deployments);
+        setModel(data.defaultDeployment);
+      })
+      .catch((err) => console.error(err));
+  }, []);
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      const response = await fetch("/api/conversations");
+      if (!response.ok) return;
+      const data = (await response.json()) as { conversations: ConversationSummary[] };
+      setConversations(data.conversations);
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  const openConversation = useCallback((conversation: Conversation) => {
+    setConversationId(conversation.id);
+    setMessages(conversation.messages);
+    setSelectedArtifact(null);
+    window.localStorage.setItem(CONVERSATION_STORAGE_KEY, conversation.id);
+  }, []);
+
+  const startConversation = useCallback(async () => {
+    try {
+      const response = await fetch("/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ systemPrompt }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Could not create conversation");
+      }
+
+      const data = (await response.json()) as { conversation: Conversation };
+      openConversation(data.conversation);
+      await refreshConversations();
+    } catch (err) {
+      // Without a stored conversation the chat still works by replaying the
+      // transcript from client state.
+      console.error(err);
+      setConversationId(null);
+      setMessages([createSystemMessage()]);
+    }
+  }, [openConversation, refreshConversations]);
+
+  const loadConversation = useCallback(
+    async (id: string) => {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`);
+
+      if (!response.ok) {
+        window.localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+        await startConversation();
+        return;
+      }
+
+      const data = (await response.json()) as { conversation: Conversation };
+      openConversation(data.conversation);
+    },
+    [openConversation, startConversation],
+  );
+
+  useEffect(() => {
+    const storedId = window.localStorage.getItem(CONVERSATION_STORAGE_KEY);
+    const restore = storedId ? loadConversation(storedId) : startConversation();
+    restore.then(refreshConversations).catch((err) => console.error(err));
+  }, [loadConversation, refreshConversations, startConversation]);
+
   const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || !files.length) return;
@@ -63,12 +268,30 @@ export default function Home() {
         body: formData,
       });
 
-      if (!response.ok) {
-        throw new Error("Upload failed");
+      const data = (await response.json().catch(() => null)) as
+        | UploadResponsePayload
+        | null;
+
+      if (!data || (!response.ok && !data.errors?.length)) {
+        setError(data?.error ?? "We couldn't upload one or more files. Try again.");
+        return;
       }
 
-      const data = (await response.json()) as { files: UploadedFileMetadata[] };
-      setPendingAttachments((prev) => [...prev, ...data.files]);
+      // Identical files share an id, so re-attaching one is a no-op.
+      setPendingAttachments((prev) => [
+        ...prev,
+        ...data.files.filter(
+          (file) => !prev.some((attachment) => attachment.id === file.id),
+        ),
+      ]);
+
+      if (data.errors?.length) {
+        setError(
+          `Some files were not uploaded: ${data.errors
+            .map((rejection) => `${rejection.name} (${rejection.reason})`)
+            .join("; ")}`,
+        );
+      }
     } catch (err) {
       console.error(err);
       setError("We couldn't upload one or more files. Try again.");
@@ -79,7 +302,23 @@ export default function Home() {
   };
 
   const handleRemoveAttachment = (id: string) => {
+    const removed = pendingAttachments.find((attachment) => attachment.id === id);
     setPendingAttachments((prev) => prev.filter((attachment) => attachment.id !== id));
+
+    // The server keeps the file while other uploads or messages still use it.
+    if (removed?.deleteUrl) {
+      void fetch(removed.deleteUrl, { method: "DELETE" }).catch((err) =>
+        console.warn("Failed to delete upload", err),
+      );
+    }
+  };
+
+  const handleAttachmentDetailChange = (id: string, detail: ImageDetail) => {
+    setPendingAttachments((prev) =>
+      prev.map((attachment) =>
+        attachment.id === id ? { ...attachment, detail } : attachment,
+      ),
+    );
   };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
@@ -95,21 +334,45 @@ export default function Home() {
     };
 
     const conversation = [...messages, userMessage];
+    const assistantId = createMessageId();
+
+    const updateAssistant = (update: (message: ChatMessage) => ChatMessage) => {
+      setMessages((prev) =>
+        prev.map((message) => (message.id === assistantId ? update(message) : message)),
+      );
+    };
 
-    setMessages(conversation);
+    setMessages([
+      ...conversation,
+      {
+        id: assistantId,
+        role: "assistant",
+        text: "",
+        createdAt: new Date().toISOString(),
+      },
+    ]);
     setPendingAttachments([]);
     setInput("");
     setIsSending(true);
+    setToolStatus(null);
     setError(null);
 
     try {
+      // Stored conversations only need the new turn; the server holds the rest.
+      const turnMessages = conversationId ? [userMessage] : conversation;
+      const outputLimit = Number.parseInt(maxOutputTokens, 10);
       const payload = {
-        messages: conversation.map((message) => ({
+        conversationId: conversationId ?? undefined,
+        model: model ?? undefined,
+        reasoningEffort: selectedDeployment?.reasoning ? reasoningEffort : undefined,
+        maxOutputTokens: outputLimit > 0 ? outputLimit : undefined,
+        messages: turnMessages.map((message) => ({
           id: message.id,
           role: message.role,
           text: message.text,
           attachments: message.attachments,
         })),
+        stream: true,
       };
 
       const response = await fetch("/api/chat", {
@@ -118,17 +381,71 @@ export default function Home() {
         body: JSON.stringify(payload),
       });
 
-      if (!response.ok) {
-        throw new Error("Chat request failed");
+      if (!response.ok || !response.body) {
+        const failure = (await response.json().catch(() => null)) as ChatErrorPayload | null;
+        throw failure?.code ? new ChatFailure(failure) : new Error("Chat request failed");
       }
 
-      const data = (await response.json()) as { message: ChatMessage };
-      setMessages((prev) => [...prev, data.message]);
+      let completed = false;
+
+      for await (const event of readSseEvents(response.body)) {
+        switch (event.type) {
+          case "text_delta": {
+            updateAssistant((message) => ({
+              ...message,
+              text: message.text + event.delta,
+            }));
+            break;
+          }
+          case "tool_call": {
+            setToolStatus(describeToolCall(event.name));
+            break;
+          }
+          case "tool_result": {
+            setToolStatus(describeToolResult(event.name, event.success));
+            const { artifact, generatedFile } = event;
+            updateAssistant((message) => ({
+              ...message,
+              artifacts: artifact
+                ? [...(message.artifacts ?? []), artifact]
+                : message.artifacts,
+              generatedFiles: generatedFile
+                ? [...(message.generatedFiles ?? []), generatedFile]
+                : message.generatedFiles,
+            }));
+            break;
+          }
+          case "message": {
+            completed = true;
+            updateAssistant(() => ({ ...event.message, id: assistantId }));
+            break;
+          }
+          case "error": {
+            throw new ChatFailure(event);
+          }
+        }
+      }
+
+      if (!completed) {
+        throw new Error("Chat stream ended unexpectedly");
+      }
+
+      if (conversationId) {
+        void refreshConversations();
+      }
     } catch (err) {
       console.error(err);
-      setError("Something went wrong generating a response. Please try again.");
+      setMessages((prev) =>
+        prev.filter((message) => message.id !== assistantId || message.text),
+      );
+      setError(
+        err instanceof ChatFailure
+          ? describeChatError(err.payload)
+          : "Something went wrong generating a response. Please try again.",
+      );
     } finally {
       setIsSending(false);
+      setToolStatus(null);
     }
   };
 
@@ -145,8 +462,32 @@ export default function Home() {
             </p>
           </div>
           <div className="flex items-center gap-3 text-xs text-slate-400">
+            {conversations.length > 0 && (
+              <select
+                value={conversationId ?? ""}
+                onChange={(event) => void loadConversation(event.target.value)}
+                disabled={isSending}
+                className="max-w-[14rem] truncate rounded-full border border-white/10 bg-black/40 px-3 py-1.5 text-xs text-slate-200 outline-none focus:border-emerald-400/70"
+              >
+                {conversations.map((summary) => (
+                  <option key={summary.id} value={summary.id}>
+                    {summary.title}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              type="button"
+              onClick={() => void startConversation()}
+              disabled={isSending}
+              className="rounded-full border border-white/20 px-3 py-1.5 font-medium text-slate-200 transition hover:border-emerald-400 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              New chat
+            </button>
             {isUploading && <span className="animate-pulse text-amber-300">Uploading…</span>}
-            {isSending && <span className="animate-pulse text-emerald-300">Thinking…</span>}
+            {isSending && (
+              <span className="animate-pulse text-emerald-300">{toolStatus ?? "Thinking…"}</span>
+            )}
           </div>
         </div>
       </header>
@@ -163,6 +504,7 @@ export default function Home() {
                 <ChatBubble
                   key={message.id}
                   message={message}
+                  conversationUsage={runningUsage.get(message.id)}
                   onSelectArtifact={setSelectedArtifact}
                 />
               ))}
@@ -179,14 +521,25 @@ export default function Home() {
                 <input
                   type="file"
                   multiple
-                  accept="image/*,.txt,.md,.csv,.json,.xml"
+                  accept="image/*,.heic,.heif,.txt,.md,.csv,.json,.xml,.pdf,.docx,.xlsx,.pptx"
                   onChange={handleUpload}
                   className="hidden"
                 />
               </label>
               <span className="text-xs text-slate-400">
-                JPG, PNG, GIF, PDF (vision supported), TXT, CSV, JSON, Markdown
+                JPG, PNG, GIF, HEIC, PDF, DOCX, XLSX, PPTX, TXT, CSV, JSON, Markdown
               </span>
+              {deployments.length > 0 && (
+                <ModelPicker
+                  deployments={deployments}
+                  model={model}
+                  onModelChange={setModel}
+                  reasoningEffort={reasoningEffort}
+                  onReasoningEffortChange={setReasoningEffort}
+                  maxOutputTokens={maxOutputTokens}
+                  onMaxOutputTokensChange={setMaxOutputTokens}
+                />
+              )}
             </div>
 
             {pendingAttachments.length > 0 && (
@@ -196,6 +549,7 @@ export default function Home() {
                     key={attachment.id}
                     attachment={attachment}
                     onRemove={handleRemoveAttachment}
+                    onDetailChange={handleAttachmentDetailChange}
                   />
                 ))}
               </div>
@@ -238,11 +592,77 @@ export default function Home() {
   );
 }
 
+function ModelPicker({
+  deployments,
+  model,
+  onModelChange,
+  reasoningEffort,
+  onReasoningEffortChange,
+  maxOutputTokens,
+  onMaxOutputTokensChange,
+}: {
+  deployments: DeploymentInfo[];
+  model: string | null;
+  onModelChange: (model: string) => void;
+  reasoningEffort: ReasoningEffort;
+  onReasoningEffortChange: (effort: ReasoningEffort) => void;
+  maxOutputTokens: string;
+  onMaxOutputTokensChange: (value: string) => void;
+}) {
+  const deployment = deployments.find((candidate) => candidate.name === model);
+  const selectClassName =
+    "rounded-full border border-white/10 bg-black/40 px-3 py-1.5 text-xs text-slate-200 outline-none focus:border-emerald-400/70";
+
+  return (
+    <div className="ml-auto flex flex-wrap items-center gap-2 text-xs text-slate-400">
+      <select
+        aria-label="Model"
+        value={model ?? ""}
+        onChange={(event) => onModelChange(event.target.value)}
+        className={selectClassName}
+      >
+        {deployments.map((candidate) => (
+          <option key={candidate.name} value={candidate.name}>
+            {candidate.label}
+            {candidate.vision ? "" : " (no vision)"}
+          </option>
+        ))}
+      </select>
+      {deployment?.reasoning && (
+        <select
+          aria-label="Reasoning effort"
+          value={reasoningEffort}
+          onChange={(event) => onReasoningEffortChange(event.target.value as ReasoningEffort)}
+          className={selectClassName}
+        >
+          {REASONING_EFFORTS.map((effort) => (
+            <option key={effort} value={effort}>
+              {effort} reasoning
+            </option>
+          ))}
+        </select>
+      )}
+      <input
+        aria-label="Max output tokens"
+        type="number"
+        min={16}
+        max={deployment?.maxOutputTokens}
+        placeholder="Max output tokens"
+        value={maxOutputTokens}
+        onChange={(event) => onMaxOutputTokensChange(event.target.value)}
+        className={clsx(selectClassName, "w-36")}
+      />
+    </div>
+  );
+}
+
 function ChatBubble({
   message,
+  conversationUsage,
   onSelectArtifact,
 }: {
   message: ChatMessage;
+  conversationUsage?: TokenUsage;
   onSelectArtifact: (artifact: Artifact) => void;
 }) {
   const isAssistant = message.role === "assistant";
@@ -264,9 +684,19 @@ function ChatBubble({
       </div>
 
       <div className="prose prose-invert max-w-none whitespace-pre-wrap text-[15px] leading-relaxed">
-        {message.text}
+        {message.text || (isAssistant ? <span className="animate-pulse text-slate-500">…</span> : null)}
       </div>
 
+      {message.budgetExceeded && (
+        <div className="rounded-xl border border-amber-500/50 bg-amber-500/10 px-4 py-2 text-xs text-amber-100">
+          {message.budgetExceeded.reason === "max_iterations"
+            ? `Stopped early: reached the limit of ${message.budgetExceeded.limit} tool rounds for this turn.`
+            : `Stopped early: reached the limit of ${message.budgetExceeded.limit} tool calls for this turn.`}
+        </div>
+      )}
+
+      {message.contextReport && <ContextNotice report={message.contextReport} />}
+
       {message.attachments && message.attachments.length > 0 && (
         <div className="grid gap-4 md:grid-cols-2">
           {message.attachments.map((attachment) => (
@@ -279,7 +709,7 @@ function ChatBubble({
         <div className="grid gap-4 md:grid-cols-2">
           {message.artifacts!.map((artifact) => (
             <ArtifactCard
-              key={artifact.id}
+              key={`${artifact.id}-${artifact.version ?? 0}`}
               artifact={artifact}
               onSelect={() => onSelectArtifact(artifact)}
             />
@@ -290,6 +720,53 @@ function ChatBubble({
       {hasGeneratedFiles && (
         <GeneratedFilesList files={message.generatedFiles!} />
       )}
+
+      {message.usage && (
+        <UsageFooter usage={message.usage} conversationUsage={conversationUsage} />
+      )}
+    </div>
+  );
+}
+
+function ContextNotice({ report }: { report: ContextReport }) {
+  const notes = [
+    report.droppedMessages > 0 &&
+      `${report.droppedMessages} earlier message${report.droppedMessages === 1 ? "" : "s"} left out`,
+    ...report.truncatedAttachments.map(
+      (attachment) =>
+        `${attachment.name} sampled (~${formatTokens(attachment.originalTokens)} → ${formatTokens(attachment.keptTokens)} tokens)`,
+    ),
+  ].filter(Boolean);
+
+  return (
+    <div className="rounded-xl border border-sky-500/40 bg-sky-500/10 px-4 py-2 text-xs text-sky-100">
+      Context trimmed to fit ~{formatTokens(report.budgetTokens)} tokens: {notes.join("; ")}.
+    </div>
+  );
+}
+
+function UsageFooter({
+  usage,
+  conversationUsage,
+}: {
+  usage: TokenUsage;
+  conversationUsage?: TokenUsage;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 border-t border-white/5 pt-3 text-[11px] text-slate-500">
+      <span>{formatTokens(usage.inputTokens)} in</span>
+      <span>
+        {formatTokens(usage.outputTokens)} out
+        {usage.reasoningTokens > 0 && ` (${formatTokens(usage.reasoningTokens)} reasoning)`}
+      </span>
+      {usage.estimatedCostUsd !== undefined && <span>≈ {formatCost(usage.estimatedCostUsd)}</span>}
+      {conversationUsage && (
+        <span className="text-slate-400">
+          Conversation: {formatTokens(conversationUsage.totalTokens)} tokens
+          {conversationUsage.estimatedCostUsd !== undefined &&
+            ` · ≈ ${formatCost(conversationUsage.estimatedCostUsd)}`}
+        </span>
+      )}
     </div>
   );
 }
@@ -300,12 +777,14 @@ function AttachmentCard({ attachment }: { attachment: UploadedFileMetadata }) {
   return (
     <div className="overflow-hidden rounded-2xl border border-white/10 bg-white/[0.02] shadow-inner">
       {isImage ? (
-        // eslint-disable-next-line @next/next/no-img-element
-        <img
-          src={attachment.publicUrl}
-          alt={attachment.originalName}
-          className="h-48 w-full object-cover"
-        />
+        <a href={attachment.publicUrl} target="_blank" rel="noreferrer">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={attachment.thumbnailUrl ?? attachment.publicUrl}
+            alt={attachment.originalName}
+            className="h-48 w-full object-cover"
+          />
+        </a>
       ) : (
         <div className="h-48 w-full overflow-y-auto bg-slate-900/60 p-4 text-xs text-slate-200">
           <pre className="whitespace-pre-wrap">{attachment.textPreview ?? "Text preview unavailable."}</pre>
@@ -313,7 +792,12 @@ function AttachmentCard({ attachment }: { attachment: UploadedFileMetadata }) {
       )}
       <div className="flex items-center justify-between border-t border-white/10 bg-black/50 px-4 py-3 text-xs text-slate-300">
         <span className="truncate font-medium">{attachment.originalName}</span>
-        <span>{formatBytes(attachment.size)}</span>
+        <span>
+          {isImage && attachment.width && attachment.height
+            ? `${attachment.width}×${attachment.height} · `
+            : ""}
+          {formatBytes(attachment.size)}
+        </span>
       </div>
     </div>
   );
@@ -322,15 +806,31 @@ function AttachmentCard({ attachment }: { attachment: UploadedFileMetadata }) {
 function AttachmentChip({
   attachment,
   onRemove,
+  onDetailChange,
 }: {
   attachment: UploadedFileMetadata;
   onRemove: (id: string) => void;
+  onDetailChange: (id: string, detail: ImageDetail) => void;
 }) {
   return (
     <div className="inline-flex items-center gap-2 rounded-full bg-slate-800/80 px-3 py-1 text-xs">
       <span className="truncate max-w-[12rem] font-medium text-slate-200">
         {attachment.originalName}
       </span>
+      {attachment.category === "image" && (
+        <select
+          value={attachment.detail ?? "auto"}
+          onChange={(event) =>
+            onDetailChange(attachment.id, event.target.value as ImageDetail)
+          }
+          title="Vision detail level"
+          className="rounded-full border border-white/10 bg-black/40 px-2 py-0.5 text-[11px] text-slate-200 outline-none focus:border-emerald-400/70"
+        >
+          <option value="auto">Auto detail</option>
+          <option value="low">Low detail</option>
+          <option value="high">High detail</option>
+        </select>
+      )}
       <button
         type="button"
         onClick={() => onRemove(attachment.id)}
@@ -355,15 +855,26 @@ function ArtifactCard({
       className="group flex h-full flex-col overflow-hidden rounded-2xl border border-emerald-500/30 bg-emerald-500/5 text-left transition hover:border-emerald-400 hover:bg-emerald-500/10"
     >
       <div className="relative h-40 overflow-hidden border-b border-emerald-400/20 bg-black/40">
-        <div
-          className="h-full w-full scale-[0.85] transform p-2 opacity-80 transition group-hover:scale-95 group-hover:opacity-100"
-          dangerouslySetInnerHTML={{ __html: artifact.previewHtml }}
+        {/* A script-less frame keeps the preview's styles off the host page. */}
+        <iframe
+          title={`${artifact.title} preview`}
+          srcDoc={previewDocument(artifact.previewHtml)}
+          sandbox=""
+          loading="lazy"
+          tabIndex={-1}
+          aria-hidden
+          className="pointer-events-none h-full w-full scale-[0.85] transform opacity-80 transition group-hover:scale-95 group-hover:opacity-100"
         />
         <div className="absolute inset-0 rounded-t-2xl bg-gradient-to-t from-black/60 via-transparent to-black/10 opacity-0 transition group-hover:opacity-100" />
       </div>
       <div className="flex-1 space-y-2 p-4">
-        <div className="text-xs font-semibold uppercase tracking-wide text-emerald-300">
+        <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-emerald-300">
           Interactive Artifact
+          {artifact.version && artifact.version > 1 && (
+            <span className="rounded-full bg-emerald-400/20 px-2 py-0.5 text-[10px] text-emerald-100">
+              v{artifact.version}
+            </span>
+          )}
         </div>
         <div className="text-sm font-medium text-white">{artifact.title}</div>
         {artifact.description && (
@@ -388,36 +899,210 @@ function ArtifactModal({
 }) {
   if (!artifact) return null;
 
+  return (
+    <ArtifactViewer
+      key={`${artifact.id}-${artifact.version ?? 0}`}
+      artifact={artifact}
+      onClose={onClose}
+    />
+  );
+}
+
+const ARTIFACT_SOURCE_PARTS: Array<{ key: keyof ArtifactSource; label: string }> = [
+  { key: "html", label: "HTML" },
+  { key: "css", label: "CSS" },
+  { key: "js", label: "JavaScript" },
+];
+
+function ArtifactViewer({
+  artifact,
+  onClose,
+}: {
+  artifact: Artifact;
+  onClose: () => void;
+}) {
+  const [history, setHistory] = useState<StoredArtifact | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState(artifact.version ?? 1);
+  const [view, setView] = useState<"preview" | "changes">("preview");
+
+  useEffect(() => {
+    // Artifacts from before versioning are not stored server-side.
+    if (!artifact.version) return;
+    let cancelled = false;
+
+    fetch(`/api/artifacts/${encodeURIComponent(artifact.id)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { artifact: StoredArtifact } | null) => {
+        if (!cancelled && data) setHistory(data.artifact);
+      })
+      .catch((err) => console.error(err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artifact.id, artifact.version]);
+
+  const versions = history?.versions ?? [];
+  const current = versions.find((entry) => entry.version === selectedVersion);
+  const previous = versions.find((entry) => entry.version === selectedVersion - 1);
+  const shown = current ?? artifact;
+  const showChanges = view === "changes" && current && previous;
+
+  const selectVersion = (version: number) => {
+    setSelectedVersion(version);
+    if (version === 1) setView("preview");
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur">
       <div className="relative flex h-[80vh] w-[90vw] max-w-5xl flex-col overflow-hidden rounded-3xl border border-emerald-400/40 bg-slate-950 shadow-2xl">
-        <header className="flex items-start justify-between border-b border-white/10 px-6 py-4">
+        <header className="flex items-start justify-between gap-4 border-b border-white/10 px-6 py-4">
           <div>
-            <h2 className="text-lg font-semibold text-white">{artifact.title}</h2>
-            {artifact.description && (
-              <p className="text-sm text-slate-300">{artifact.description}</p>
+            <h2 className="text-lg font-semibold text-white">{shown.title}</h2>
+            {shown.description && (
+              <p className="text-sm text-slate-300">{shown.description}</p>
+            )}
+            {current?.changeSummary && (
+              <p className="mt-1 text-xs text-emerald-300">{current.changeSummary}</p>
             )}
           </div>
-          <button
-            onClick={onClose}
-            className="inline-flex items-center rounded-full border border-white/20 px-3 py-1 text-xs font-medium text-slate-200 transition hover:border-emerald-400 hover:text-emerald-300"
-          >
-            Close
-          </button>
+          <div className="flex shrink-0 items-center gap-2">
+            {versions.length > 1 && (
+              <>
+                <div className="inline-flex items-center overflow-hidden rounded-full border border-white/20 text-xs text-slate-200">
+                  <button
+                    onClick={() => selectVersion(selectedVersion - 1)}
+                    disabled={selectedVersion <= 1}
+                    className="px-2 py-1 transition hover:text-emerald-300 disabled:opacity-40"
+                    aria-label="Previous version"
+                  >
+                    ‹
+                  </button>
+                  <span className="px-1">
+                    Version {selectedVersion} of {versions.length}
+                  </span>
+                  <button
+                    onClick={() => selectVersion(selectedVersion + 1)}
+                    disabled={selectedVersion >= versions.length}
+                    className="px-2 py-1 transition hover:text-emerald-300 disabled:opacity-40"
+                    aria-label="Next version"
+                  >
+                    ›
+                  </button>
+                </div>
+                <div className="inline-flex overflow-hidden rounded-full border border-white/20 text-xs">
+                  {(["preview", "changes"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      disabled={option === "changes" && !previous}
+                      className={clsx(
+                        "px-3 py-1 capitalize transition disabled:opacity-40",
+                        view === option
+                          ? "bg-emerald-400/20 text-emerald-200"
+                          : "text-slate-300 hover:text-emerald-300",
+                      )}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+            <button
+              onClick={onClose}
+              className="inline-flex items-center rounded-full border border-white/20 px-3 py-1 text-xs font-medium text-slate-200 transition hover:border-emerald-400 hover:text-emerald-300"
+            >
+              Close
+            </button>
+          </div>
         </header>
-        <div className="flex-1 bg-black">
-          <iframe
-            title={artifact.title}
-            srcDoc={artifact.fullHtml}
-            sandbox="allow-scripts allow-forms allow-pointer-lock allow-same-origin"
-            className="h-full w-full"
-          />
-        </div>
+        {showChanges ? (
+          <ArtifactChanges before={previous} after={current} />
+        ) : (
+          <div className="flex-1 bg-black">
+            {artifact.version ? (
+              <iframe
+                key={selectedVersion}
+                title={shown.title}
+                src={artifactFrameUrl(artifact.id, selectedVersion)}
+                sandbox={ARTIFACT_SANDBOX}
+                referrerPolicy="no-referrer"
+                className="h-full w-full"
+              />
+            ) : (
+              <iframe
+                title={shown.title}
+                srcDoc={withArtifactPolicy(artifact.fullHtml)}
+                sandbox={ARTIFACT_SANDBOX}
+                className="h-full w-full"
+              />
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
+function ArtifactChanges({
+  before,
+  after,
+}: {
+  before: ArtifactVersion;
+  after: ArtifactVersion;
+}) {
+  const parts = useMemo(
+    () =>
+      ARTIFACT_SOURCE_PARTS.map(({ key, label }) => ({
+        label,
+        lines: diffLines(before[key] ?? "", after[key] ?? ""),
+      })).filter(({ lines }) =>
+        lines.some((line) => line.type === "added" || line.type === "removed"),
+      ),
+    [before, after],
+  );
+
+  return (
+    <div className="flex-1 space-y-4 overflow-auto p-6 font-mono text-xs">
+      {parts.length === 0 && (
+        <p className="font-sans text-sm text-slate-300">
+          The code is unchanged; only the title or description differs.
+        </p>
+      )}
+      {parts.map(({ label, lines }) => (
+        <section key={label} className="overflow-hidden rounded-xl border border-white/10">
+          <h3 className="border-b border-white/10 bg-white/5 px-3 py-1.5 font-sans text-xs font-semibold text-slate-200">
+            {label}
+          </h3>
+          <div>
+            {lines.map((line, index) =>
+              line.type === "skipped" ? (
+                <div key={index} className="px-3 py-0.5 italic text-slate-500">
+                  … {line.count} unchanged line{line.count === 1 ? "" : "s"}
+                </div>
+              ) : (
+                <div
+                  key={index}
+                  className={clsx(
+                    "whitespace-pre-wrap break-all px-3",
+                    line.type === "added" && "bg-emerald-500/15 text-emerald-200",
+                    line.type === "removed" && "bg-rose-500/15 text-rose-200",
+                    line.type === "same" && "text-slate-400",
+                  )}
+                >
+                  {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                  {line.text}
+                </div>
+              ),
+            )}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
+
 function GeneratedFilesList({ files }: { files: GeneratedFile[] }) {
   return (
     <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-white/10 bg-emerald-500/5 p-4 text-xs text-emerald-100">
@@ -425,22 +1110,51 @@ function GeneratedFilesList({ files }: { files: GeneratedFile[] }) {
         Generated files
       </span>
       {files.map((file) => (
-        <a
+        <div
           key={file.id}
-          href={file.downloadUrl}
-          className="inline-flex items-center gap-2 rounded-full border border-emerald-400/40 bg-emerald-400/20 px-3 py-1 font-medium text-emerald-100 transition hover:bg-emerald-400/40"
-          download
+          className="inline-flex items-center overflow-hidden rounded-full border border-emerald-400/40 bg-emerald-400/20"
         >
-          <span className="text-emerald-200">{file.type.toUpperCase()}</span>
-          <span className="truncate max-w-[10rem] text-emerald-50">
-            {file.filename}
-          </span>
-        </a>
+          <a
+            href={file.downloadUrl}
+            className="inline-flex items-center gap-2 px-3 py-1 font-medium text-emerald-100 transition hover:bg-emerald-400/40"
+            download
+          >
+            <span
+              className={clsx(
+                "rounded-full px-2 py-0.5 text-[10px] font-semibold tracking-wide",
+                FILE_TYPE_BADGES[file.type] ?? "bg-emerald-500/30 text-emerald-100",
+              )}
+            >
+              {file.type.toUpperCase()}
+            </span>
+            <span className="truncate max-w-[10rem] text-emerald-50">
+              {file.filename}
+            </span>
+          </a>
+          {PREVIEWABLE_TYPES.has(file.type) && (
+            <a
+              href={`${file.downloadUrl}&inline=1`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="border-l border-emerald-400/40 px-3 py-1 font-medium text-emerald-200 transition hover:bg-emerald-400/40"
+            >
+              Preview
+            </a>
+          )}
+        </div>
       ))}
     </div>
   );
 }
 
+function formatTokens(tokens: number) {
+  return tokens.toLocaleString();
+}
+
+function formatCost(usd: number) {
+  return `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
 function formatBytes(bytes: number, decimals = 1) {
   if (!bytes) return "0 B";
   const k = 1024;
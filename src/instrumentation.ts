@@ -0,0 +1,11 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { warnIfSigningSecretMissing } = await import(
+      "@/lib/storage/signedUrls"
+    );
+    warnIfSigningSecretMissing();
+
+    const { startRetentionSweeper } = await import("@/lib/storage/retention");
+    startRetentionSweeper();
+  }
+}
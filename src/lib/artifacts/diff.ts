@@ -0,0 +1,114 @@
+export type DiffLine =
+  | { type: "same" | "added" | "removed"; text: string }
+  | { type: "skipped"; count: number };
+
+/**
+ * Above this many line pairs the LCS table gets too large to build in the
+ * browser, and the changed region is shown as one replaced block.
+ */
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * Line diff of two texts based on the longest common subsequence. Unchanged
+ * runs longer than twice `context` are collapsed into a `skipped` entry.
+ */
+export function diffLines(before: string, after: string, context = 3): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const lines: DiffLine[] = [
+    ...a.slice(0, prefix).map((text) => ({ type: "same" as const, text })),
+    ...diffMiddle(
+      a.slice(prefix, a.length - suffix),
+      b.slice(prefix, b.length - suffix),
+    ),
+    ...a.slice(a.length - suffix).map((text) => ({ type: "same" as const, text })),
+  ];
+
+  return collapseUnchanged(lines, context);
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      lines.push({ type: "added", text: b[j] });
+      j += 1;
+    } else {
+      lines.push({ type: "removed", text: a[i] });
+      i += 1;
+    }
+  }
+
+  return lines;
+}
+
+function collapseUnchanged(lines: DiffLine[], context: number): DiffLine[] {
+  const collapsed: DiffLine[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type !== "same") {
+      collapsed.push(lines[index]);
+      index += 1;
+      continue;
+    }
+
+    let end = index;
+    while (end < lines.length && lines[end].type === "same") end += 1;
+
+    const keepBefore = index === 0 ? 0 : context;
+    const keepAfter = end === lines.length ? 0 : context;
+    const hidden = end - index - keepBefore - keepAfter;
+
+    if (hidden > 0) {
+      collapsed.push(...lines.slice(index, index + keepBefore));
+      collapsed.push({ type: "skipped", count: hidden });
+      collapsed.push(...lines.slice(end - keepAfter, end));
+    } else {
+      collapsed.push(...lines.slice(index, end));
+    }
+    index = end;
+  }
+
+  return collapsed;
+}
@@ -0,0 +1,77 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { ARTIFACT_DIR } from "@/lib/fsUtils";
+import { createKeyedMutex } from "@/lib/keyedMutex";
+import { StoredArtifact } from "@/lib/types";
+import {
+  ArtifactStore,
+  isValidArtifactId,
+} from "@/lib/artifacts/store";
+
+/**
+ * Stores each artifact with its full version history as one JSON document
+ * under `ARTIFACT_DIR`. Updates to the same artifact are serialised so
+ * concurrent tool calls cannot drop a version.
+ */
+export function createFileArtifactStore(
+  directory = ARTIFACT_DIR,
+): ArtifactStore {
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+  const exclusive = createKeyedMutex();
+
+  async function read(id: string): Promise<StoredArtifact | null> {
+    if (!isValidArtifactId(id)) return null;
+
+    try {
+      return JSON.parse(await readFile(filePath(id), "utf-8")) as StoredArtifact;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async function write(artifact: StoredArtifact) {
+    await mkdir(directory, { recursive: true });
+    const destination = filePath(artifact.id);
+    const temporary = `${destination}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(artifact, null, 2));
+    await rename(temporary, destination);
+    return artifact;
+  }
+
+  return {
+    get: read,
+
+    async create(version) {
+      const now = new Date().toISOString();
+      return write({
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        versions: [{ ...version, version: 1, createdAt: now }],
+      });
+    },
+
+    addVersion(id, version) {
+      return exclusive(id, async () => {
+        const artifact = await read(id);
+        if (!artifact) return null;
+
+        const now = new Date().toISOString();
+        return write({
+          ...artifact,
+          updatedAt: now,
+          versions: [
+            ...artifact.versions,
+            {
+              ...version,
+              version: artifact.versions.length + 1,
+              createdAt: now,
+            },
+          ],
+        });
+      });
+    },
+  };
+}
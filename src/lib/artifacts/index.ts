@@ -0,0 +1,18 @@
+import { ArtifactStore } from "@/lib/artifacts/store";
+import { createFileArtifactStore } from "@/lib/artifacts/fileStore";
+
+let store: ArtifactStore | null = null;
+
+export function getArtifactStore(): ArtifactStore {
+  if (!store) {
+    const kind = process.env.ARTIFACT_STORE ?? "file";
+
+    if (kind !== "file") {
+      throw new Error(`Unsupported ARTIFACT_STORE "${kind}".`);
+    }
+
+    store = createFileArtifactStore();
+  }
+
+  return store;
+}
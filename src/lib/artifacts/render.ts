@@ -0,0 +1,56 @@
+import sanitizeHtml from "sanitize-html";
+import { ArtifactSource } from "@/lib/types";
+
+/**
+ * Builds the sanitised card preview and the full micro-app document for one
+ * artifact version.
+ */
+export function renderArtifact({ html, css, js }: ArtifactSource) {
+  const previewHtml = sanitizeHtml(
+    `<style>${css ?? ""}</style>${html}`,
+    {
+      allowedTags: sanitizeHtml.defaults.allowedTags.concat([
+        "img",
+        "svg",
+        "path",
+        "circle",
+        "line",
+        "polyline",
+        "polygon",
+        "style",
+        "canvas",
+      ]),
+      allowedAttributes: {
+        ...sanitizeHtml.defaults.allowedAttributes,
+        "*": (sanitizeHtml.defaults.allowedAttributes["*"] ?? []).concat([
+          "style",
+          "class",
+          "id",
+          "data-*",
+        ]),
+      },
+    },
+  );
+
+  const fullHtml = [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8" />',
+    "<style>",
+    css ?? "",
+    "</style>",
+    "</head>",
+    "<body>",
+    html,
+    js
+      ? `<script type="module">\n${js}\n</script>`
+      : "",
+    "</body>",
+    "</html>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return { previewHtml, fullHtml };
+}
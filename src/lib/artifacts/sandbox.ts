@@ -0,0 +1,71 @@
+/**
+ * Sandbox flags for artifact frames. `allow-same-origin` is deliberately
+ * absent: artifact code runs in an opaque origin and cannot reach the app's
+ * cookies, storage or DOM.
+ */
+export const ARTIFACT_SANDBOX = "allow-scripts allow-forms allow-pointer-lock";
+
+/**
+ * Policy for model-authored artifact pages. Inline code is allowed, but the
+ * network is closed except for `allowedOrigins` (approved CDNs).
+ */
+export function artifactContentSecurityPolicy(allowedOrigins: string[] = []) {
+  const sources = allowedOrigins.join(" ");
+  const withSources = (...base: string[]) =>
+    [...base, sources].filter(Boolean).join(" ") || "'none'";
+
+  return [
+    "default-src 'none'",
+    `script-src ${withSources("'unsafe-inline'")}`,
+    `style-src ${withSources("'unsafe-inline'")}`,
+    `img-src ${withSources("data:", "blob:")}`,
+    `media-src ${withSources("data:", "blob:")}`,
+    `font-src ${withSources("data:")}`,
+    `connect-src ${withSources()}`,
+    "base-uri 'none'",
+    "form-action 'none'",
+  ].join("; ");
+}
+
+/** Preview cards only show sanitised markup: no scripts, no network. */
+const PREVIEW_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; style-src 'unsafe-inline'; img-src data:";
+
+/**
+ * Where a stored artifact version is served. With
+ * `NEXT_PUBLIC_ARTIFACT_ORIGIN` set, frames load from that separate origin
+ * (which must route to this app) rather than the app's own.
+ */
+export function artifactFrameUrl(id: string, version: number) {
+  const origin = process.env.NEXT_PUBLIC_ARTIFACT_ORIGIN?.replace(/\/+$/, "") ?? "";
+  return `${origin}/api/artifacts/${encodeURIComponent(id)}/frame?version=${version}`;
+}
+
+/**
+ * Standalone document for a preview card's `srcdoc`, with a policy that
+ * blocks scripts and remote loads even if sanitising missed something.
+ */
+export function previewDocument(previewHtml: string) {
+  return [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8" />',
+    `<meta http-equiv="Content-Security-Policy" content="${PREVIEW_CONTENT_SECURITY_POLICY}" />`,
+    "<style>body { margin: 0; padding: 0.5rem; color: #e2e8f0; font-family: system-ui, sans-serif; overflow: hidden; }</style>",
+    "</head>",
+    `<body>${previewHtml}</body>`,
+    "</html>",
+  ].join("\n");
+}
+
+/**
+ * Adds the artifact policy as a `<meta>` tag, for artifacts from before
+ * versioning that can only be shown through `srcdoc`.
+ */
+export function withArtifactPolicy(fullHtml: string) {
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${artifactContentSecurityPolicy()}" />`;
+  return /<head[^>]*>/i.test(fullHtml)
+    ? fullHtml.replace(/<head[^>]*>/i, (head) => `${head}\n${meta}`)
+    : `${meta}\n${fullHtml}`;
+}
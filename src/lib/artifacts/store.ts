@@ -0,0 +1,41 @@
+import { Artifact, ArtifactVersion, StoredArtifact } from "@/lib/types";
+
+export type NewArtifactVersion = Omit<ArtifactVersion, "version" | "createdAt">;
+
+export interface ArtifactStore {
+  get(id: string): Promise<StoredArtifact | null>;
+  create(version: NewArtifactVersion): Promise<StoredArtifact>;
+  /**
+   * Appends the next version; returns `null` when the artifact does not exist.
+   */
+  addVersion(
+    id: string,
+    version: NewArtifactVersion,
+  ): Promise<StoredArtifact | null>;
+}
+
+export function isValidArtifactId(id: string): boolean {
+  return /^[a-zA-Z0-9-]{1,64}$/.test(id);
+}
+
+export function latestVersion(artifact: StoredArtifact): ArtifactVersion {
+  return artifact.versions[artifact.versions.length - 1];
+}
+
+/**
+ * The chat payload for one version (the latest by default), as shown on an
+ * artifact card.
+ */
+export function toArtifactSnapshot(
+  artifact: StoredArtifact,
+  version: ArtifactVersion = latestVersion(artifact),
+): Artifact {
+  return {
+    id: artifact.id,
+    title: version.title,
+    description: version.description,
+    previewHtml: version.previewHtml,
+    fullHtml: version.fullHtml,
+    version: version.version,
+  };
+}
@@ -1,15 +1,37 @@
 import OpenAI from "openai";
+import { createAzureProvider } from "@/lib/providers/azureProvider";
+import {
+  createRecordingProvider,
+  createReplayProvider,
+} from "@/lib/providers/fixtures";
+import { createMockProvider } from "@/lib/providers/mockProvider";
+import { ResponsesProvider } from "@/lib/providers/types";
 
 const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
 const apiKey = process.env.AZURE_OPENAI_API_KEY;
 
-if (!apiKey) {
+const replayFixture = process.env.RESPONSES_REPLAY_FIXTURE;
+const recordFixture = process.env.RESPONSES_RECORD_FIXTURE;
+
+/**
+ * `mock` swaps Azure for a deterministic in-process provider so the UI and the
+ * tool loop can run without network access; `replay` serves the interactions
+ * recorded in `RESPONSES_REPLAY_FIXTURE` in order.
+ */
+export const providerName: "azure" | "mock" | "replay" =
+  process.env.AZURE_OPENAI_PROVIDER === "mock"
+    ? "mock"
+    : process.env.AZURE_OPENAI_PROVIDER === "replay"
+      ? "replay"
+      : "azure";
+
+if (providerName === "azure" && !apiKey) {
   console.warn(
     "[azureClient] Missing AZURE_OPENAI_API_KEY. Calls to Azure OpenAI will fail until this is set.",
   );
 }
 
-if (!endpoint) {
+if (providerName === "azure" && !endpoint) {
   console.warn(
     "[azureClient] Missing AZURE_OPENAI_ENDPOINT. Calls to Azure OpenAI will fail until this is set.",
   );
@@ -17,10 +39,42 @@ if (!endpoint) {
 
 // For the Responses API v1, no api-version query parameter is needed
 // The OpenAI library handles the endpoint correctly with /openai/v1
+// Retries are handled by `withRetry` in azureErrors.ts so that backoff and
+// streaming-aware retry decisions live in one place.
 export const azureClient = new OpenAI({
-  apiKey,
+  apiKey: apiKey ?? (providerName === "azure" ? undefined : "offline"),
   baseURL: endpoint ? `${endpoint}/openai/v1` : undefined,
+  maxRetries: 0,
 });
 
+export const responsesProvider: ResponsesProvider = selectProvider();
+
+export function isProviderConfigured() {
+  return providerName !== "azure" || Boolean(apiKey && endpoint);
+}
+
+// Setting RESPONSES_RECORD_FIXTURE captures every call of the selected
+// provider, so a bad tool-call sequence can be replayed offline later.
+function selectProvider(): ResponsesProvider {
+  let provider: ResponsesProvider;
+
+  if (providerName === "replay") {
+    if (!replayFixture) {
+      throw new Error(
+        "AZURE_OPENAI_PROVIDER=replay requires RESPONSES_REPLAY_FIXTURE to point at a fixture file.",
+      );
+    }
+    provider = createReplayProvider(replayFixture);
+  } else if (providerName === "mock") {
+    provider = createMockProvider();
+  } else {
+    provider = createAzureProvider(azureClient);
+  }
+
+  return recordFixture
+    ? createRecordingProvider(provider, recordFixture)
+    : provider;
+}
+
 export const defaultDeployment =
   process.env.AZURE_OPENAI_DEPLOYMENT ?? "gpt-5";
@@ -0,0 +1,217 @@
+import {
+  APIConnectionError,
+  APIError,
+  APIUserAbortError,
+} from "openai";
+import { readNonNegativeInt } from "@/lib/env";
+import { ChatErrorCode } from "@/lib/types";
+
+export interface ClassifiedAzureError {
+  code: ChatErrorCode;
+  /**
+   * HTTP status the chat route answers with for this class.
+   */
+  status: number;
+  message: string;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Raised for failures that are detected in a response body rather than as an
+ * HTTP error, such as a content-filtered completion.
+ */
+export class AzureCallError extends Error {
+  constructor(
+    readonly code: ChatErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AzureCallError";
+  }
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /**
+   * Rate limits asking for a longer wait than this are surfaced to the user
+   * instead of being retried.
+   */
+  maxRetryAfterSeconds?: number;
+  /**
+   * Extra veto evaluated after classification, e.g. once streamed output has
+   * already reached the client.
+   */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+const STATUS_BY_CODE: Record<ChatErrorCode, number> = {
+  invalid_request: 400,
+  rate_limited: 429,
+  content_filtered: 400,
+  context_length_exceeded: 400,
+  auth_error: 502,
+  config_error: 500,
+  transient: 503,
+  unknown: 500,
+};
+
+const MESSAGE_BY_CODE: Record<ChatErrorCode, string> = {
+  invalid_request: "The request was rejected by Azure OpenAI.",
+  rate_limited: "Azure OpenAI is rate limiting requests.",
+  content_filtered: "The prompt or response was blocked by the Azure content filter.",
+  context_length_exceeded:
+    "The conversation is too long for the selected model's context window.",
+  auth_error: "Azure OpenAI rejected the server's credentials.",
+  config_error: "Azure OpenAI is not configured correctly on the server.",
+  transient: "Azure OpenAI is temporarily unavailable.",
+  unknown: "Failed to generate a response from Azure OpenAI.",
+};
+
+export function chatError(
+  code: ChatErrorCode,
+  retryAfterSeconds?: number,
+): ClassifiedAzureError {
+  return {
+    code,
+    status: STATUS_BY_CODE[code],
+    message: MESSAGE_BY_CODE[code],
+    retryable: code === "transient" || code === "rate_limited",
+    retryAfterSeconds,
+  };
+}
+
+export function classifyAzureError(error: unknown): ClassifiedAzureError {
+  if (error instanceof AzureCallError) {
+    return chatError(error.code);
+  }
+
+  // Connection errors carry no status; user aborts are handled by the caller.
+  if (error instanceof APIConnectionError) {
+    return chatError("transient");
+  }
+
+  if (!(error instanceof APIError) || error instanceof APIUserAbortError) {
+    return chatError("unknown");
+  }
+
+  const code = error.code ?? "";
+  const message = error.message.toLowerCase();
+
+  if (error.status === 429) {
+    return chatError("rate_limited", readRetryAfter(error.headers));
+  }
+
+  if (code === "content_filter" || message.includes("content management policy")) {
+    return chatError("content_filtered");
+  }
+
+  if (
+    code === "context_length_exceeded" ||
+    message.includes("maximum context length") ||
+    message.includes("exceeds the context window")
+  ) {
+    return chatError("context_length_exceeded");
+  }
+
+  if (error.status === 401 || error.status === 403) {
+    return chatError("auth_error");
+  }
+
+  if (error.status === 404 || code === "DeploymentNotFound") {
+    return chatError("config_error");
+  }
+
+  if (error.status === 408 || error.status === 409 || (error.status ?? 0) >= 500) {
+    return chatError("transient");
+  }
+
+  if (error.status === 400) {
+    return chatError("invalid_request");
+  }
+
+  return chatError("unknown");
+}
+
+/**
+ * Runs `operation`, retrying transient failures and short rate limits with
+ * full-jitter exponential backoff. A server `retry-after` takes precedence
+ * over the computed delay.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  {
+    signal,
+    maxAttempts = readNonNegativeInt(process.env.AZURE_OPENAI_MAX_RETRIES, 3) + 1,
+    baseDelayMs = 500,
+    maxDelayMs = 8_000,
+    maxRetryAfterSeconds = 20,
+    shouldRetry = () => true,
+  }: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxAttempts) throw error;
+
+      const classified = classifyAzureError(error);
+      if (!classified.retryable || !shouldRetry(error)) throw error;
+
+      if (
+        classified.retryAfterSeconds !== undefined &&
+        classified.retryAfterSeconds > maxRetryAfterSeconds
+      ) {
+        throw error;
+      }
+
+      const delayMs =
+        classified.retryAfterSeconds !== undefined
+          ? classified.retryAfterSeconds * 1000
+          : Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+      console.warn(
+        `[azure] ${classified.code} on attempt ${attempt}/${maxAttempts}, retrying in ${Math.round(delayMs)}ms`,
+      );
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+function readRetryAfter(headers: Headers | undefined): number | undefined {
+  const retryAfterMs = Number(headers?.get("retry-after-ms"));
+  if (retryAfterMs > 0) return Math.ceil(retryAfterMs / 1000);
+
+  const retryAfter = headers?.get("retry-after");
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
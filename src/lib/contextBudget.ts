@@ -0,0 +1,150 @@
+import { readPositiveInt } from "@/lib/env";
+import { ContextReport } from "@/lib/types";
+
+export interface ContextBudget {
+  /**
+   * Estimated tokens the assembled input may use before older turns are dropped.
+   */
+  maxInputTokens: number;
+  /**
+   * Estimated tokens a single text attachment may contribute before it is sampled.
+   */
+  maxAttachmentTokens: number;
+}
+
+export interface BudgetedMessage {
+  role: "system" | "user" | "assistant";
+  content: Array<Record<string, unknown>>;
+}
+
+// Rough heuristic for English text and code; good enough to stay clear of the
+// context limit without pulling a tokenizer into the route.
+const CHARS_PER_TOKEN = 4;
+// Upper bound for a high-detail image tile set; low detail is a flat 85.
+const IMAGE_TOKEN_ESTIMATE = 1_100;
+const LOW_DETAIL_IMAGE_TOKENS = 85;
+
+export function getContextBudget(): ContextBudget {
+  return {
+    maxInputTokens: readPositiveInt(process.env.CHAT_CONTEXT_TOKEN_BUDGET, 120_000),
+    maxAttachmentTokens: readPositiveInt(
+      process.env.CHAT_ATTACHMENT_TOKEN_BUDGET,
+      20_000,
+    ),
+  };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: BudgetedMessage): number {
+  return message.content.reduce((total, part) => {
+    if (part.type === "input_image") {
+      return (
+        total +
+        (part.detail === "low" ? LOW_DETAIL_IMAGE_TOKENS : IMAGE_TOKEN_ESTIMATE)
+      );
+    }
+    return total + (typeof part.text === "string" ? estimateTokens(part.text) : 0);
+  }, 0);
+}
+
+/**
+ * Keeps the start and end of an oversized text (two thirds head, one third
+ * tail, cut on line boundaries) and marks the elided middle explicitly.
+ */
+export function sampleText(text: string, maxTokens: number) {
+  const originalTokens = estimateTokens(text);
+
+  if (originalTokens <= maxTokens) {
+    return { text, truncated: false, originalTokens, keptTokens: originalTokens };
+  }
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const headEnd = lastLineBreakBefore(text, Math.floor((maxChars * 2) / 3));
+  const tailStart = firstLineBreakAfter(text, text.length - Math.floor(maxChars / 3));
+  const head = text.slice(0, headEnd);
+  const tail = text.slice(tailStart);
+  const omittedLines = text.slice(headEnd, tailStart).split("\n").length - 1;
+
+  return {
+    text: [
+      head,
+      `[... ${omittedLines} lines (~${estimateTokens(
+        text.slice(headEnd, tailStart),
+      )} tokens) omitted from the middle of this file to fit the context window ...]`,
+      tail,
+    ].join("\n"),
+    truncated: true,
+    originalTokens,
+    keptTokens: estimateTokens(head) + estimateTokens(tail),
+  };
+}
+
+/**
+ * Drops the oldest non-system messages until the estimate fits the budget.
+ * System messages and the newest message are always kept, and a note tells
+ * the model how many turns were left out.
+ */
+export function fitMessagesToBudget(
+  messages: BudgetedMessage[],
+  maxTokens: number,
+): {
+  messages: BudgetedMessage[];
+  droppedMessages: number;
+  estimatedTokens: number;
+} {
+  const costs = messages.map(estimateMessageTokens);
+  let estimatedTokens = costs.reduce((sum, cost) => sum + cost, 0);
+  const dropped = new Set<number>();
+
+  for (
+    let index = 0;
+    index < messages.length - 1 && estimatedTokens > maxTokens;
+    index += 1
+  ) {
+    if (messages[index].role === "system") continue;
+    dropped.add(index);
+    estimatedTokens -= costs[index];
+  }
+
+  if (!dropped.size) {
+    return { messages, droppedMessages: 0, estimatedTokens };
+  }
+
+  const kept = messages.filter((_, index) => !dropped.has(index));
+  const firstConversational = kept.findIndex((message) => message.role !== "system");
+  const note: BudgetedMessage = {
+    role: "system",
+    content: [
+      {
+        type: "input_text",
+        text: `[${dropped.size} earlier messages were omitted to fit the context window. Ask the user to restate anything you need from them.]`,
+      },
+    ],
+  };
+  kept.splice(firstConversational === -1 ? kept.length : firstConversational, 0, note);
+
+  return {
+    messages: kept,
+    droppedMessages: dropped.size,
+    estimatedTokens: estimatedTokens + estimateMessageTokens(note),
+  };
+}
+
+export function hasElisions(report: ContextReport): boolean {
+  return report.droppedMessages > 0 || report.truncatedAttachments.length > 0;
+}
+
+function lastLineBreakBefore(text: string, index: number) {
+  const lineBreak = text.lastIndexOf("\n", index);
+  return lineBreak > index / 2 ? lineBreak : index;
+}
+
+function firstLineBreakAfter(text: string, index: number) {
+  const lineBreak = text.indexOf("\n", index);
+  return lineBreak !== -1 && lineBreak < index + (text.length - index) / 2
+    ? lineBreak + 1
+    : index;
+}
@@ -0,0 +1,127 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { CONVERSATION_DIR } from "@/lib/fsUtils";
+import { createKeyedMutex } from "@/lib/keyedMutex";
+import { Conversation } from "@/lib/types";
+import {
+  ConversationStore,
+  DEFAULT_CONVERSATION_TITLE,
+  isValidConversationId,
+  summarizeConversation,
+} from "@/lib/conversations/store";
+
+const MAX_DERIVED_TITLE = 60;
+
+/**
+ * Stores each conversation as one JSON document under `CONVERSATION_DIR`.
+ * Writes go through a temporary file and a rename so readers never observe a
+ * half-written conversation, and changes to the same conversation are
+ * serialised so two turns finishing together both land.
+ */
+export function createFileConversationStore(
+  directory = CONVERSATION_DIR,
+): ConversationStore {
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+  const exclusive = createKeyedMutex();
+
+  async function read(id: string): Promise<Conversation | null> {
+    if (!isValidConversationId(id)) return null;
+
+    try {
+      return JSON.parse(await readFile(filePath(id), "utf-8")) as Conversation;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async function write(conversation: Conversation) {
+    await mkdir(directory, { recursive: true });
+    const destination = filePath(conversation.id);
+    const temporary = `${destination}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(conversation, null, 2));
+    await rename(temporary, destination);
+    return conversation;
+  }
+
+  return {
+    async list() {
+      await mkdir(directory, { recursive: true });
+      const entries = await readdir(directory);
+      const conversations = await Promise.all(
+        entries
+          .filter((entry) => entry.endsWith(".json"))
+          .map((entry) => read(entry.replace(/\.json$/, ""))),
+      );
+
+      return conversations
+        .filter((conversation): conversation is Conversation => !!conversation)
+        .map(summarizeConversation)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    get: read,
+
+    async create({ title, messages = [] }) {
+      const now = new Date().toISOString();
+      return write({
+        id: randomUUID(),
+        title: title?.trim() || DEFAULT_CONVERSATION_TITLE,
+        createdAt: now,
+        updatedAt: now,
+        messages,
+      });
+    },
+
+    rename(id, title) {
+      return exclusive(id, async () => {
+        const conversation = await read(id);
+        if (!conversation) return null;
+
+        return write({
+          ...conversation,
+          title,
+          updatedAt: new Date().toISOString(),
+        });
+      });
+    },
+
+    appendTurn(id, messages, lastResponseId) {
+      return exclusive(id, async () => {
+        const conversation = await read(id);
+        if (!conversation) return null;
+
+        const firstUserMessage = messages.find(
+          (message) => message.role === "user",
+        );
+        const title =
+          conversation.title === DEFAULT_CONVERSATION_TITLE && firstUserMessage
+            ? firstUserMessage.text.slice(0, MAX_DERIVED_TITLE)
+            : conversation.title;
+
+        return write({
+          ...conversation,
+          title,
+          messages: [...conversation.messages, ...messages],
+          lastResponseId: lastResponseId ?? conversation.lastResponseId,
+          updatedAt: new Date().toISOString(),
+        });
+      });
+    },
+
+    delete(id) {
+      if (!isValidConversationId(id)) return Promise.resolve(false);
+
+      return exclusive(id, async () => {
+        try {
+          await rm(filePath(id));
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+          throw error;
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import { ConversationStore } from "@/lib/conversations/store";
+import { createFileConversationStore } from "@/lib/conversations/fileStore";
+
+let store: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  if (!store) {
+    const kind = process.env.CONVERSATION_STORE ?? "file";
+
+    if (kind !== "file") {
+      throw new Error(`Unsupported CONVERSATION_STORE "${kind}".`);
+    }
+
+    store = createFileConversationStore();
+  }
+
+  return store;
+}
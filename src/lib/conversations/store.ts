@@ -0,0 +1,43 @@
+import { ChatMessage, Conversation, ConversationSummary } from "@/lib/types";
+
+export interface CreateConversationInput {
+  title?: string;
+  messages?: ChatMessage[];
+}
+
+export interface ConversationStore {
+  list(): Promise<ConversationSummary[]>;
+  get(id: string): Promise<Conversation | null>;
+  create(input: CreateConversationInput): Promise<Conversation>;
+  rename(id: string, title: string): Promise<Conversation | null>;
+  /**
+   * Appends the messages of a completed turn and records the response id the
+   * next turn should chain from.
+   */
+  appendTurn(
+    id: string,
+    messages: ChatMessage[],
+    lastResponseId?: string,
+  ): Promise<Conversation | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+export function isValidConversationId(id: string): boolean {
+  return /^[a-zA-Z0-9-]{1,64}$/.test(id);
+}
+
+export function summarizeConversation(
+  conversation: Conversation,
+): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.filter(
+      (message) => message.role !== "system",
+    ).length,
+  };
+}
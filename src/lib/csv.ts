@@ -0,0 +1,110 @@
+/**
+ * Formats one RFC 4180 record: fields containing the delimiter, quotes or line
+ * breaks are quoted and embedded quotes are doubled.
+ */
+export function formatCsvRow(values: string[], delimiter = ","): string {
+  return values
+    .map((value) =>
+      value.includes(delimiter) || /["\r\n]/.test(value)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value,
+    )
+    .join(delimiter);
+}
+
+/** Formats a whole file with CRLF record separators, as RFC 4180 specifies. */
+export function formatCsv(rows: string[][], delimiter = ","): string {
+  return rows.map((row) => `${formatCsvRow(row, delimiter)}\r\n`).join("");
+}
+
+export interface CsvRecord {
+  /** 1-based line on which the record starts. */
+  line: number;
+  fields: string[];
+}
+
+export interface CsvParseResult {
+  records: CsvRecord[];
+  /** Syntax problems, each prefixed with its line number. */
+  errors: string[];
+}
+
+/**
+ * Parses RFC 4180 text leniently: every record is returned, and stray or
+ * unclosed quotes are reported in `errors` instead of aborting the parse.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = ","): CsvParseResult {
+  const records: CsvRecord[] = [];
+  const errors: string[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let closedQuote = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = "";
+    closedQuote = false;
+  };
+  const endRecord = () => {
+    const wasQuoted = closedQuote;
+    endField();
+    if (fields.length > 1 || fields[0] !== "" || wasQuoted) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+        closedQuote = true;
+      } else {
+        if (char === "\n") line += 1;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else if (char === '"' && field === "" && !closedQuote) {
+      inQuotes = true;
+    } else {
+      if (closedQuote) {
+        errors.push(
+          `Line ${line}: unexpected text after a closing quote. A quoted field must end at the delimiter or line end.`,
+        );
+        closedQuote = false;
+      } else if (char === '"') {
+        errors.push(
+          `Line ${line}: quote inside an unquoted field. Wrap the field in double quotes and double any quotes inside it.`,
+        );
+      }
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push(`Line ${recordLine}: quoted field is never closed.`);
+  }
+  if (fields.length || field !== "" || closedQuote || inQuotes) {
+    endRecord();
+  }
+
+  return { records, errors };
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { defaultDeployment } from "@/lib/azureClient";
+import { ChatRequestPayload, DeploymentInfo } from "@/lib/types";
+
+const deploymentListSchema = z
+  .array(
+    z.object({
+      name: z.string().min(1),
+      label: z.string().min(1).optional(),
+      vision: z.boolean().default(true),
+      reasoning: z.boolean().default(false),
+      temperature: z.boolean().default(true),
+      maxOutputTokens: z.number().int().positive().default(16_384),
+    }),
+  )
+  .min(1);
+
+let registry: DeploymentInfo[] | null = null;
+
+/**
+ * Deployments users may pick from, read from `AZURE_OPENAI_DEPLOYMENTS` (a JSON
+ * array). Without it, only `AZURE_OPENAI_DEPLOYMENT` is offered with
+ * capabilities inferred from its name.
+ */
+export function getDeployments(): DeploymentInfo[] {
+  if (registry) return registry;
+
+  const configured = process.env.AZURE_OPENAI_DEPLOYMENTS;
+
+  if (configured) {
+    try {
+      registry = deploymentListSchema
+        .parse(JSON.parse(configured))
+        .map((deployment) => ({
+          ...deployment,
+          label: deployment.label ?? deployment.name,
+        }));
+      return registry;
+    } catch (error) {
+      console.warn(
+        "[deployments] Ignoring invalid AZURE_OPENAI_DEPLOYMENTS value.",
+        error,
+      );
+    }
+  }
+
+  registry = [inferDeployment(defaultDeployment)];
+  return registry;
+}
+
+export function getDefaultDeployment(): DeploymentInfo {
+  const deployments = getDeployments();
+  return (
+    deployments.find((deployment) => deployment.name === defaultDeployment) ??
+    deployments[0]
+  );
+}
+
+export function findDeployment(name: string): DeploymentInfo | undefined {
+  return getDeployments().find((deployment) => deployment.name === name);
+}
+
+/**
+ * Checks the model options of a chat request against the registry and returns
+ * one message per problem; an empty list means the request is acceptable.
+ */
+export function validateModelOptions(
+  body: Pick<
+    ChatRequestPayload,
+    "model" | "reasoningEffort" | "maxOutputTokens" | "temperature"
+  >,
+): string[] {
+  const deployment = body.model
+    ? findDeployment(body.model)
+    : getDefaultDeployment();
+
+  if (!deployment) {
+    return [
+      `Unknown model "${body.model}". Available: ${getDeployments()
+        .map(({ name }) => name)
+        .join(", ")}.`,
+    ];
+  }
+
+  const problems: string[] = [];
+
+  if (body.reasoningEffort && !deployment.reasoning) {
+    problems.push(`${deployment.name} does not support reasoning effort.`);
+  }
+
+  if (body.temperature !== undefined && !deployment.temperature) {
+    problems.push(`${deployment.name} does not accept a temperature.`);
+  }
+
+  if (
+    body.maxOutputTokens !== undefined &&
+    body.maxOutputTokens > deployment.maxOutputTokens
+  ) {
+    problems.push(
+      `maxOutputTokens for ${deployment.name} cannot exceed ${deployment.maxOutputTokens}.`,
+    );
+  }
+
+  return problems;
+}
+
+function inferDeployment(name: string): DeploymentInfo {
+  const reasoning = /^(gpt-5|o\d)/i.test(name);
+
+  return {
+    name,
+    label: name,
+    vision: true,
+    reasoning,
+    temperature: !reasoning,
+    maxOutputTokens: reasoning ? 128_000 : 16_384,
+  };
+}
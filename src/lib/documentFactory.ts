@@ -1,16 +1,47 @@
 import { randomUUID } from "node:crypto";
-import { writeFile } from "node:fs/promises";
-import path from "node:path";
-import PDFDocument from "pdfkit";
-import { Document, Packer, Paragraph } from "docx";
-import { GENERATED_DIR, ensureDirectories } from "@/lib/fsUtils";
-
-type DocumentType = "pdf" | "docx" | "txt" | "csv" | "md";
+import { CsvOptions, renderCsv } from "@/lib/documents/csv";
+import { renderDocx } from "@/lib/documents/docxRenderer";
+import { renderHtml } from "@/lib/documents/html";
+import { resolveDocumentImages } from "@/lib/documents/images";
+import {
+  DocumentBlock,
+  parseMarkdown,
+  spansToPlainText,
+} from "@/lib/documents/markdown";
+import { renderPdf } from "@/lib/documents/pdfRenderer";
+import { renderPptx } from "@/lib/documents/presentation";
+import {
+  parseSpreadsheetSpec,
+  renderXlsx,
+} from "@/lib/documents/spreadsheet";
+import { getDocumentTemplate } from "@/lib/documents/templates";
+import { getBlobStore } from "@/lib/storage";
+import { UploadedFileMetadata } from "@/lib/types";
+
+export const DOCUMENT_TYPES = [
+  "pdf",
+  "docx",
+  "xlsx",
+  "pptx",
+  "html",
+  "json",
+  "txt",
+  "csv",
+  "md",
+] as const;
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
 
 interface CreateDocumentInput {
   filename: string;
   type: DocumentType;
   content: string;
+  /** Template for PDF and DOCX output; other types ignore it. */
+  template?: string | null;
+  /** Attachments that image blocks may reference by id. */
+  attachments?: UploadedFileMetadata[];
+  /** Delimiter and byte order mark for CSV output. */
+  csv?: CsvOptions;
 }
 
 export interface DocumentCreationResult {
@@ -18,12 +49,15 @@ export interface DocumentCreationResult {
   filename: string;
   type: DocumentType;
   storedFilename: string;
-  fullPath: string;
 }
 
 const EXTENSION_MAP: Record<DocumentType, string> = {
   pdf: ".pdf",
   docx: ".docx",
+  xlsx: ".xlsx",
+  pptx: ".pptx",
+  html: ".html",
+  json: ".json",
   txt: ".txt",
   csv: ".csv",
   md: ".md",
@@ -33,38 +67,81 @@ export async function createDocumentFile({
   filename,
   type,
   content,
+  template,
+  attachments = [],
+  csv,
 }: CreateDocumentInput): Promise<DocumentCreationResult> {
-  await ensureDirectories();
-
   const id = randomUUID();
   const ext = EXTENSION_MAP[type];
-  const safeBase = filename
-    .replace(/\.[^/.]+$/, "")
+  const baseName = filename.replace(/\.[^/.]+$/, "");
+  // Blob keys may not contain "..", so dot runs collapse and edge dots go.
+  const safeBase = baseName
     .replace(/[^a-zA-Z0-9._-]/g, "_")
+    .replace(/\.+/g, ".")
+    .replace(/^\.+|\.+$/g, "")
     .slice(0, 120) || "azure-ai-document";
-  const finalFilename = `${safeBase}${ext}`;
-  const storedFilename = `${id}-${finalFilename}`;
-  const destination = path.join(GENERATED_DIR, storedFilename);
-
-  const buffer = await createBufferForType(type, content);
-  await writeFile(destination, buffer);
+  const title = baseName.trim() || safeBase;
+  // The blob key is ASCII-only; the name shown and offered for download keeps
+  // the model's wording, minus path separators and control characters.
+  const displayFilename = `${title
+    .replace(/[\u0000-\u001f\u007f/\\]/g, "_")
+    .slice(0, 120)}${ext}`;
+  const storedFilename = `${id}-${safeBase}${ext}`;
+
+  const buffer = await createBufferForType(type, content, title, {
+    template,
+    attachments,
+    csv,
+  });
+  await getBlobStore().put("generated", storedFilename, buffer);
 
   return {
     id,
-    filename: finalFilename,
+    filename: displayFilename,
     type,
     storedFilename,
-    fullPath: destination,
   };
 }
 
-async function createBufferForType(type: DocumentType, content: string) {
+async function createBufferForType(
+  type: DocumentType,
+  content: string,
+  title: string,
+  {
+    template,
+    attachments,
+    csv,
+  }: Pick<CreateDocumentInput, "template" | "attachments" | "csv">,
+) {
   switch (type) {
-    case "pdf": {
-      return renderPdf(content);
-    }
+    case "pdf":
     case "docx": {
-      return renderDocx(content);
+      const blocks = await resolveDocumentImages(
+        parseMarkdown(content),
+        attachments ?? [],
+      );
+      const documentTemplate = await getDocumentTemplate(template);
+      const documentTitle = leadingHeading(blocks) ?? title;
+      return type === "pdf"
+        ? renderPdf(blocks, documentTemplate, documentTitle)
+        : renderDocx(blocks, documentTemplate, documentTitle);
+    }
+    case "xlsx": {
+      return renderXlsx(parseSpreadsheetSpec(content));
+    }
+    case "pptx": {
+      return renderPptx(
+        await resolveDocumentImages(parseMarkdown(content), attachments ?? []),
+      );
+    }
+    case "html": {
+      return Buffer.from(renderHtml(content, title), "utf-8");
+    }
+    case "json": {
+      return Buffer.from(formatJson(content), "utf-8");
+    }
+    case "csv": {
+      return renderCsv(content, csv);
     }
     default: {
       return Buffer.from(content, "utf-8");
@@ -72,36 +149,18 @@ async function createBufferForType(type: DocumentType, content: string) {
   }
 }
 
-async function renderPdf(content: string): Promise<Buffer> {
-  return new Promise<Buffer>((resolve, reject) => {
-    const doc = new PDFDocument({ margin: 50 });
-    const chunks: Buffer[] = [];
-
-    doc.on("data", (chunk) => chunks.push(chunk));
-    doc.on("end", () => resolve(Buffer.concat(chunks)));
-    doc.on("error", (err) => reject(err));
-
-    doc.font("Helvetica").fontSize(12).text(content, {
-      align: "left",
-    });
-
-    doc.end();
-  });
+function leadingHeading(blocks: DocumentBlock[]) {
+  const [first] = blocks;
+  return first?.type === "heading" && first.level === 1
+    ? spansToPlainText(first.spans).trim() || null
+    : null;
 }
 
-async function renderDocx(content: string): Promise<Buffer> {
-  const paragraphs = content
-    .split(/\n{2,}/)
-    .map((block) => new Paragraph(block.trim()));
-
-  const doc = new Document({
-    sections: [
-      {
-        properties: {},
-        children: paragraphs.length ? paragraphs : [new Paragraph(content)],
-      },
-    ],
-  });
-
-  return Packer.toBuffer(doc);
+/** Rejects invalid JSON so the model can correct it, and pretty-prints the rest. */
+function formatJson(content: string) {
+  try {
+    return `${JSON.stringify(JSON.parse(content), null, 2)}\n`;
+  } catch (error) {
+    throw new Error(`Invalid JSON content: ${(error as Error).message}`);
+  }
 }
@@ -0,0 +1,277 @@
+import { z } from "zod";
+
+const seriesSchema = z.object({
+  name: z.string(),
+  values: z.array(z.number()),
+});
+
+export const chartSpecSchema = z.object({
+  type: z.union([z.literal("bar"), z.literal("line"), z.literal("pie")]),
+  title: z.string().optional(),
+  caption: z.string().optional(),
+  labels: z.array(z.string()).min(1),
+  series: z.array(seriesSchema).min(1),
+  xLabel: z.string().optional(),
+  yLabel: z.string().optional(),
+});
+
+export type ChartSpec = z.infer<typeof chartSpecSchema>;
+
+export const CHART_CONTENT_HINT =
+  'Chart blocks are fenced ```chart code blocks holding JSON: {"type":"bar|line|pie","title":"…","caption":"…","labels":["Q1","Q2"],"series":[{"name":"Revenue","values":[10,12]}],"xLabel":"…","yLabel":"…"}. Pie charts use the first series.';
+
+const WIDTH = 800;
+const HEIGHT = 450;
+const PALETTE = [
+  "#2563eb",
+  "#f97316",
+  "#10b981",
+  "#e11d48",
+  "#8b5cf6",
+  "#eab308",
+  "#0ea5e9",
+  "#64748b",
+];
+const FONT = "Helvetica, Arial, sans-serif";
+
+export function parseChartSpec(source: string): ChartSpec {
+  let json: unknown;
+  try {
+    json = JSON.parse(source);
+  } catch (error) {
+    throw new Error(
+      `Invalid chart block: ${(error as Error).message}. ${CHART_CONTENT_HINT}`,
+    );
+  }
+
+  const parsed = chartSpecSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid chart block: ${z.prettifyError(parsed.error)}. ${CHART_CONTENT_HINT}`,
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Draws a chart as a standalone SVG. The title is drawn inside the image; the
+ * caption is left to the document renderer.
+ */
+export function renderChartSvg(spec: ChartSpec): string {
+  const body = spec.type === "pie" ? renderPie(spec) : renderCartesian(spec);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="${FONT}">`,
+    `<rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>`,
+    spec.title
+      ? text(WIDTH / 2, 34, spec.title, { size: 20, weight: "bold", anchor: "middle" })
+      : "",
+    body,
+    "</svg>",
+  ].join("");
+}
+
+function renderCartesian(spec: ChartSpec) {
+  const top = spec.title ? 60 : 30;
+  const legendHeight = spec.series.length > 1 ? 30 : 0;
+  const plot = {
+    left: spec.yLabel ? 90 : 70,
+    right: WIDTH - 30,
+    top,
+    bottom: HEIGHT - 50 - legendHeight - (spec.xLabel ? 24 : 0),
+  };
+  const values = spec.series.flatMap((series) => series.values);
+  const { min, max, step } = niceScale(
+    Math.min(0, ...values),
+    Math.max(0, ...values),
+  );
+  const y = (value: number) =>
+    plot.bottom - ((value - min) / (max - min)) * (plot.bottom - plot.top);
+  const band = (plot.right - plot.left) / spec.labels.length;
+  const parts: string[] = [];
+
+  for (let tick = min; tick <= max + step / 2; tick += step) {
+    const ty = y(tick);
+    parts.push(
+      line(plot.left, ty, plot.right, ty, tick === 0 ? "#9ca3af" : "#e5e7eb"),
+      text(plot.left - 8, ty + 4, formatTick(tick), { anchor: "end", size: 12 }),
+    );
+  }
+
+  spec.labels.forEach((label, index) => {
+    parts.push(
+      text(plot.left + band * (index + 0.5), plot.bottom + 20, label, {
+        anchor: "middle",
+        size: 12,
+      }),
+    );
+  });
+
+  if (spec.type === "bar") {
+    const groupWidth = band * 0.75;
+    const barWidth = groupWidth / spec.series.length;
+    spec.series.forEach((series, seriesIndex) => {
+      series.values.slice(0, spec.labels.length).forEach((value, index) => {
+        const x =
+          plot.left + band * index + (band - groupWidth) / 2 + barWidth * seriesIndex;
+        const y0 = y(Math.max(value, 0));
+        const height = Math.abs(y(value) - y(0));
+        parts.push(
+          `<rect x="${x.toFixed(1)}" y="${y0.toFixed(1)}" width="${(barWidth - 2).toFixed(1)}" height="${height.toFixed(1)}" fill="${color(seriesIndex)}"/>`,
+        );
+      });
+    });
+  } else {
+    spec.series.forEach((series, seriesIndex) => {
+      const points = series.values
+        .slice(0, spec.labels.length)
+        .map((value, index) => [plot.left + band * (index + 0.5), y(value)]);
+      parts.push(
+        `<polyline fill="none" stroke="${color(seriesIndex)}" stroke-width="3" points="${points
+          .map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`)
+          .join(" ")}"/>`,
+        ...points.map(
+          ([px, py]) =>
+            `<circle cx="${px.toFixed(1)}" cy="${py.toFixed(1)}" r="4" fill="${color(seriesIndex)}"/>`,
+        ),
+      );
+    });
+  }
+
+  parts.push(line(plot.left, plot.top, plot.left, plot.bottom, "#9ca3af"));
+
+  if (spec.xLabel) {
+    parts.push(
+      text((plot.left + plot.right) / 2, plot.bottom + 44, spec.xLabel, {
+        anchor: "middle",
+        size: 13,
+      }),
+    );
+  }
+  if (spec.yLabel) {
+    const cy = (plot.top + plot.bottom) / 2;
+    parts.push(
+      `<text x="22" y="${cy}" font-size="13" fill="#374151" text-anchor="middle" transform="rotate(-90 22 ${cy})">${escapeXml(spec.yLabel)}</text>`,
+    );
+  }
+  if (legendHeight) {
+    parts.push(
+      legend(
+        spec.series.map((series) => series.name),
+        HEIGHT - legendHeight + 4,
+      ),
+    );
+  }
+
+  return parts.join("");
+}
+
+function renderPie(spec: ChartSpec) {
+  const values = spec.series[0].values
+    .slice(0, spec.labels.length)
+    .map((value) => Math.max(value, 0));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const top = spec.title ? 60 : 20;
+  const radius = (HEIGHT - top - 30) / 2;
+  const cx = WIDTH / 2 - 120;
+  const cy = top + radius;
+  const parts: string[] = [];
+
+  if (!total) {
+    return text(WIDTH / 2, HEIGHT / 2, "No data", { anchor: "middle", size: 16 });
+  }
+
+  let angle = -Math.PI / 2;
+  values.forEach((value, index) => {
+    const sweep = (value / total) * Math.PI * 2;
+    if (sweep >= Math.PI * 2 - 1e-6) {
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color(index)}"/>`);
+    } else if (sweep > 0) {
+      const [x1, y1] = polar(cx, cy, radius, angle);
+      const [x2, y2] = polar(cx, cy, radius, angle + sweep);
+      parts.push(
+        `<path d="M${cx},${cy} L${x1.toFixed(1)},${y1.toFixed(1)} A${radius},${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2.toFixed(1)},${y2.toFixed(1)} Z" fill="${color(index)}" stroke="#ffffff" stroke-width="2"/>`,
+      );
+    }
+    angle += sweep;
+  });
+
+  spec.labels.slice(0, values.length).forEach((label, index) => {
+    const ly = top + 20 + index * 26;
+    const share = `${((values[index] / total) * 100).toFixed(1)}%`;
+    parts.push(
+      `<rect x="${cx + radius + 50}" y="${ly - 12}" width="14" height="14" fill="${color(index)}"/>`,
+      text(cx + radius + 72, ly, `${label} (${share})`, { size: 14 }),
+    );
+  });
+
+  return parts.join("");
+}
+
+function legend(names: string[], y: number) {
+  const itemWidth = Math.min(180, (WIDTH - 60) / names.length);
+  const startX = (WIDTH - itemWidth * names.length) / 2;
+
+  return names
+    .map((name, index) => {
+      const x = startX + itemWidth * index;
+      return (
+        `<rect x="${x}" y="${y}" width="14" height="14" fill="${color(index)}"/>` +
+        text(x + 20, y + 12, name, { size: 13 })
+      );
+    })
+    .join("");
+}
+
+/** Axis bounds and tick step rounded to 1, 2 or 5 times a power of ten. */
+function niceScale(min: number, max: number) {
+  if (min === max) max = min + 1;
+  const rough = (max - min) / 5;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step =
+    [1, 2, 5, 10].map((factor) => factor * magnitude).find((s) => s >= rough) ??
+    10 * magnitude;
+
+  return {
+    min: Math.floor(min / step) * step,
+    max: Math.ceil(max / step) * step,
+    step,
+  };
+}
+
+function formatTick(value: number) {
+  const rounded = Number(value.toPrecision(6));
+  return Math.abs(rounded) >= 1000
+    ? rounded.toLocaleString("en-US")
+    : String(rounded);
+}
+
+function polar(cx: number, cy: number, radius: number, angle: number) {
+  return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+}
+
+function color(index: number) {
+  return PALETTE[index % PALETTE.length];
+}
+
+function line(x1: number, y1: number, x2: number, y2: number, stroke: string) {
+  return `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" stroke="${stroke}" stroke-width="1"/>`;
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  options: { size?: number; weight?: string; anchor?: string } = {},
+) {
+  return `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" font-size="${options.size ?? 14}" font-weight="${options.weight ?? "normal"}" fill="#374151" text-anchor="${options.anchor ?? "start"}">${escapeXml(content)}</text>`;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
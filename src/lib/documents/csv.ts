@@ -0,0 +1,202 @@
+import { z } from "zod";
+import {
+  CsvParseResult,
+  CsvRecord,
+  formatCsv,
+  parseCsv,
+} from "@/lib/csv";
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+export interface CsvOptions {
+  delimiter?: CsvDelimiter | null;
+  /** Prefix a UTF-8 byte order mark so Excel detects the encoding. */
+  bom?: boolean | null;
+}
+
+const csvValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const csvTableSchema = z.object({
+  columns: z.array(z.string()).min(1).optional(),
+  rows: z.array(
+    z.union([z.array(csvValueSchema), z.record(z.string(), csvValueSchema)]),
+  ),
+});
+
+type CsvTable = z.infer<typeof csvTableSchema>;
+
+export const CSV_CONTENT_HINT =
+  'CSV content is either CSV text, where every row has the same number of fields and fields containing the delimiter, quotes or line breaks are wrapped in double quotes (with inner quotes doubled), or JSON {"columns":["Item","Amount"],"rows":[["Rent",1200]]} whose rows may also be objects keyed by column name.';
+
+/** Maximum number of problems listed back to the model. */
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * Raised when CSV content cannot be turned into a consistent table. `issues`
+ * lists every problem found so the model can fix them in one retry.
+ */
+export class CsvValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(
+      `Invalid CSV content: ${issues.length} problem${issues.length === 1 ? "" : "s"} found. ${CSV_CONTENT_HINT}`,
+    );
+    this.name = "CsvValidationError";
+  }
+}
+
+/**
+ * Normalises the model's CSV text or `{columns, rows}` table into RFC 4180
+ * output. Markdown pipe tables and code fences are unwrapped; ragged rows and
+ * quoting mistakes are rejected with a `CsvValidationError`.
+ */
+export function renderCsv(content: string, options: CsvOptions = {}): Buffer {
+  const delimiter = options.delimiter ?? ",";
+  const trimmed = unwrapCodeFence(content.replace(/^\uFEFF/, "").trim());
+  const table = parseCsvTable(trimmed);
+  const rows = table ? tableRows(table) : textRows(trimmed, delimiter);
+
+  const text = formatCsv(rows, delimiter);
+  return Buffer.from(options.bom ? `\uFEFF${text}` : text, "utf-8");
+}
+
+/**
+ * Returns the JSON table, or `null` for CSV text. Text starting with `[` only
+ * counts as JSON when it parses, since a CSV header may begin with `[id]`.
+ */
+function parseCsvTable(content: string): CsvTable | null {
+  if (!/^[[{]/.test(content)) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    if (content.startsWith("[")) return null;
+    throw new CsvValidationError([
+      `Content starts like JSON but does not parse: ${(error as Error).message}`,
+    ]);
+  }
+
+  const parsed = csvTableSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new CsvValidationError(
+      parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "content"}: ${issue.message}`,
+      ),
+    );
+  }
+
+  return parsed.data;
+}
+
+function tableRows({ columns, rows }: CsvTable): string[][] {
+  const records = rows.map((row) => (Array.isArray(row) ? null : row));
+  const header =
+    columns ??
+    (records.every(Boolean)
+      ? [...new Set(records.flatMap((record) => Object.keys(record ?? {})))]
+      : undefined);
+
+  const body = rows.map((row) =>
+    Array.isArray(row)
+      ? row.map(formatValue)
+      : (header ?? []).map((column) => formatValue(row[column] ?? null)),
+  );
+
+  const expected =
+    header?.length ?? body.find((_, index) => !records[index])?.length ?? 0;
+  const issues = body.flatMap((row, index) => {
+    if (!header && records[index]) {
+      return [
+        `rows.${index}: is an object but other rows are arrays; add "columns" so its keys can be placed.`,
+      ];
+    }
+    if (row.length === expected) return [];
+
+    return [
+      `rows.${index}: has ${row.length} value${row.length === 1 ? "" : "s"} but ${
+        header ? "columns has" : "the first row has"
+      } ${expected}.`,
+    ];
+  });
+  if (issues.length) throw new CsvValidationError(limitIssues(issues));
+
+  return header ? [header, ...body] : body;
+}
+
+function textRows(content: string, delimiter: CsvDelimiter): string[][] {
+  const { records, errors } =
+    parseMarkdownTable(content) ?? parseCsv(content, delimiter);
+  const issues = [...errors, ...raggedRecords(records, delimiter)];
+  if (issues.length) throw new CsvValidationError(limitIssues(issues));
+
+  return records.map((record) => record.fields);
+}
+
+function raggedRecords(records: CsvRecord[], delimiter: CsvDelimiter) {
+  const [header] = records;
+  if (!header) return [];
+  const shown = delimiter === "\t" ? "tab" : `"${delimiter}"`;
+
+  return records.slice(1).flatMap((record) =>
+    record.fields.length === header.fields.length
+      ? []
+      : [
+          `Line ${record.line}: ${record.fields.length} field${
+            record.fields.length === 1 ? "" : "s"
+          } but the header on line ${header.line} has ${header.fields.length}.${
+            record.fields.length > header.fields.length
+              ? ` Quote fields that contain ${shown}.`
+              : ""
+          }`,
+        ],
+  );
+}
+
+/**
+ * Reads a Markdown pipe table (header, `|---|` separator, rows) as records.
+ * Returns null unless every non-blank line looks like a table row.
+ */
+function parseMarkdownTable(content: string): CsvParseResult | null {
+  const lines = content
+    .split(/\r?\n/)
+    .map((text, index) => ({ text: text.trim(), line: index + 1 }))
+    .filter(({ text }) => text);
+  if (
+    lines.length < 2 ||
+    !lines.every(({ text }) => /^\|.*\|$/.test(text)) ||
+    !/^\|(\s*:?-+:?\s*\|)+$/.test(lines[1].text)
+  ) {
+    return null;
+  }
+
+  return {
+    records: [lines[0], ...lines.slice(2)].map(({ text, line }) => ({
+      line,
+      fields: text
+        .slice(1, -1)
+        .split(/(?<!\\)\|/)
+        .map((cell) => cell.trim().replace(/\\\|/g, "|")),
+    })),
+    errors: [],
+  };
+}
+
+function unwrapCodeFence(content: string) {
+  const match = content.match(/^```[\w-]*\r?\n([\s\S]*?)\r?\n```$/);
+  return match ? match[1].trim() : content;
+}
+
+function formatValue(value: string | number | boolean | null) {
+  return value === null ? "" : String(value);
+}
+
+function limitIssues(issues: string[]) {
+  return issues.length > MAX_REPORTED_ERRORS
+    ? [
+        ...issues.slice(0, MAX_REPORTED_ERRORS),
+        `…and ${issues.length - MAX_REPORTED_ERRORS} more.`,
+      ]
+    : issues;
+}
@@ -0,0 +1,617 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  ISectionOptions,
+  LevelFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  Tab,
+  TabStopType,
+  TextRun,
+  WidthType,
+} from "docx";
+import { EmbeddedImage } from "@/lib/documents/images";
+import {
+  DocumentBlock,
+  InlineSpan,
+  TableAlign,
+} from "@/lib/documents/markdown";
+import {
+  DocumentTemplate,
+  fillTemplateText,
+  loadTemplateLogo,
+} from "@/lib/documents/templates";
+
+type BodyChild = Paragraph | Table;
+
+/** Template colours without the leading `#`, as docx expects them. */
+type Colors = DocumentTemplate["colors"];
+
+interface BlockContext {
+  colors: Colors;
+  monoFont: string;
+  /** List nesting depth, used for bullet and numbering levels. */
+  level: number;
+  /** Extra left indent in twips, used inside block quotes. */
+  indent: number;
+  quote: boolean;
+  /** Width of the text column in twips, before `indent`. */
+  textWidth: number;
+}
+
+interface NumberingState {
+  next: number;
+  starts: Set<number>;
+}
+
+const ORDERED_LIST_REFERENCE = "ordered-list";
+/** US Letter in twips, matching the PDF renderer's page size. */
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const HEADING_SCALE = [2, 1.64, 1.36, 1.18, 1.09, 1];
+const HEADER_SIZE = 17;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+export async function renderDocx(
+  blocks: DocumentBlock[],
+  template: DocumentTemplate,
+  title: string,
+): Promise<Buffer> {
+  const colors = Object.fromEntries(
+    Object.entries(template.colors).map(([key, value]) => [key, value.slice(1)]),
+  ) as Colors;
+  const logo = await loadTemplateLogo(template);
+  const margin = template.margin * 20;
+  const textWidth = PAGE_WIDTH - margin * 2;
+
+  let content = blocks;
+  if (
+    template.titlePage &&
+    content[0]?.type === "heading" &&
+    content[0].level === 1
+  ) {
+    content = content.slice(1);
+  }
+
+  // Each ordered list gets its own numbering instance so it restarts instead
+  // of continuing the previous list; lists are grouped by their start value.
+  const numbering: NumberingState = { next: 1, starts: new Set([1]) };
+  const children = renderBlocks(
+    content,
+    {
+      colors,
+      monoFont: template.fonts.mono,
+      level: 0,
+      indent: 0,
+      quote: false,
+      textWidth,
+    },
+    numbering,
+  );
+
+  const page = {
+    size: { width: PAGE_WIDTH, height: PAGE_HEIGHT },
+    margin: { top: margin, bottom: margin, left: margin, right: margin },
+  };
+  const sections: ISectionOptions[] = [];
+
+  if (template.titlePage) {
+    sections.push({
+      properties: { page, verticalAlign: "center" },
+      children: titlePageChildren(template, colors, title, logo),
+    });
+  }
+
+  sections.push({
+    properties: { page: { ...page, pageNumbers: { start: 1 } } },
+    headers: pageHeader(
+      template,
+      colors,
+      title,
+      logo,
+      textWidth,
+    ),
+    footers: pageFooter(template, colors, title, textWidth),
+    children: children.length ? children : [new Paragraph("")],
+  });
+
+  const headingStyle = (level: number) => ({
+    run: {
+      font: template.fonts.heading,
+      color: colors.heading,
+      bold: true,
+      size: Math.round(template.bodySize * 2 * HEADING_SCALE[level - 1]),
+    },
+    paragraph: { spacing: { before: 240, after: 120 } },
+  });
+
+  const doc = new Document({
+    title,
+    styles: {
+      default: {
+        document: {
+          run: {
+            font: template.fonts.body,
+            size: template.bodySize * 2,
+            color: colors.text,
+          },
+        },
+        heading1: headingStyle(1),
+        heading2: headingStyle(2),
+        heading3: headingStyle(3),
+        heading4: headingStyle(4),
+        heading5: headingStyle(5),
+        heading6: headingStyle(6),
+      },
+    },
+    numbering: {
+      config: [...numbering.starts].map((start) => ({
+        reference: orderedListReference(start),
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          start,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: {
+            paragraph: {
+              indent: { left: 720 * (level + 1), hanging: 360 },
+            },
+          },
+        })),
+      })),
+    },
+    sections,
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+function titlePageChildren(
+  template: DocumentTemplate,
+  colors: Colors,
+  title: string,
+  logo: EmbeddedImage | null,
+): Paragraph[] {
+  const centered = (children: ParagraphChild[], after = 200) =>
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after },
+      children,
+    });
+
+  return [
+    ...(logo ? [centered([logoRun(logo, 240, 96)], 600)] : []),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 240 },
+      border: {
+        bottom: {
+          style: BorderStyle.SINGLE,
+          size: 12,
+          color: colors.accent,
+          space: 12,
+        },
+      },
+      children: [
+        new TextRun({
+          text: title,
+          font: template.fonts.heading,
+          bold: true,
+          color: colors.heading,
+          size: Math.round(template.bodySize * 2 * 2.6),
+        }),
+      ],
+    }),
+    ...(template.subtitle
+      ? [
+          centered([
+            new TextRun({
+              text: fillTemplateText(template.subtitle, title),
+              color: colors.muted,
+              size: Math.round(template.bodySize * 2 * 1.3),
+            }),
+          ]),
+        ]
+      : []),
+    centered([
+      new TextRun({
+        text: fillTemplateText("{date}", title),
+        color: colors.muted,
+        size: Math.round(template.bodySize * 2 * 1.3),
+      }),
+    ]),
+  ];
+}
+
+function pageHeader(
+  template: DocumentTemplate,
+  colors: Colors,
+  title: string,
+  logo: EmbeddedImage | null,
+  textWidth: number,
+) {
+  const text = template.header ? fillTemplateText(template.header, title) : "";
+  if (!text && !logo) return undefined;
+
+  return {
+    default: new Header({
+      children: [
+        new Paragraph({
+          alignment: logo ? AlignmentType.LEFT : AlignmentType.RIGHT,
+          border: {
+            bottom: {
+              style: BorderStyle.SINGLE,
+              size: 4,
+              color: colors.border,
+              space: 4,
+            },
+          },
+          children: [
+            ...(logo ? [logoRun(logo, 120, 24)] : []),
+            ...(logo && text ? [new TextRun({ children: [new Tab()] })] : []),
+            new TextRun({ text, size: HEADER_SIZE, color: colors.muted }),
+          ],
+          tabStops: logo
+            ? [{ type: TabStopType.RIGHT, position: textWidth }]
+            : undefined,
+        }),
+      ],
+    }),
+  };
+}
+
+function pageFooter(
+  template: DocumentTemplate,
+  colors: Colors,
+  title: string,
+  textWidth: number,
+) {
+  const text = template.footer ? fillTemplateText(template.footer, title) : "";
+  if (!text && !template.pageNumbers) return undefined;
+
+  const run = { size: HEADER_SIZE, color: colors.muted };
+
+  return {
+    default: new Footer({
+      children: [
+        new Paragraph({
+          tabStops: [{ type: TabStopType.RIGHT, position: textWidth }],
+          children: [
+            new TextRun({ ...run, text }),
+            ...(template.pageNumbers
+              ? [
+                  new TextRun({
+                    ...run,
+                    children: [
+                      new Tab(),
+                      "Page ",
+                      PageNumber.CURRENT,
+                      " of ",
+                      PageNumber.TOTAL_PAGES_IN_SECTION,
+                    ],
+                  }),
+                ]
+              : []),
+          ],
+        }),
+      ],
+    }),
+  };
+}
+
+function logoRun(logo: EmbeddedImage, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height, 1);
+  return new ImageRun({
+    type: logo.type,
+    data: logo.data,
+    transformation: {
+      width: Math.round(logo.width * scale),
+      height: Math.round(logo.height * scale),
+    },
+  });
+}
+
+function renderBlocks(
+  blocks: DocumentBlock[],
+  context: BlockContext,
+  numbering: NumberingState,
+): BodyChild[] {
+  return blocks.flatMap((block): BodyChild[] => {
+    switch (block.type) {
+      case "heading":
+        return [
+          new Paragraph({
+            heading: HEADING_LEVELS[block.level - 1] ?? HeadingLevel.HEADING_6,
+            children: toRuns(block.spans, context),
+          }),
+        ];
+      case "paragraph":
+        return [
+          new Paragraph({
+            children: toRuns(block.spans, context),
+            ...quoteFormatting(context),
+          }),
+        ];
+      case "list":
+        return renderList(block, context, numbering);
+      case "table":
+        return [renderTable(block, context)];
+      case "code":
+        return renderCode(block.text, context);
+      case "image":
+        return renderImage(block, context);
+      case "blockquote":
+        return renderBlocks(
+          block.blocks,
+          { ...context, indent: context.indent + 360, quote: true },
+          numbering,
+        );
+      case "rule":
+        return [
+          new Paragraph({
+            border: {
+              bottom: {
+                style: BorderStyle.SINGLE,
+                size: 6,
+                color: context.colors.border,
+                space: 1,
+              },
+            },
+          }),
+        ];
+    }
+  });
+}
+
+function toRuns(spans: InlineSpan[], context: BlockContext): ParagraphChild[] {
+  const { colors } = context;
+
+  return spans.map((span) => {
+    const run = new TextRun({
+      text: span.text,
+      bold: span.bold,
+      italics: span.italic || context.quote,
+      strike: span.strike,
+      font: span.code ? context.monoFont : undefined,
+      color: span.link ? colors.accent : context.quote ? colors.muted : undefined,
+      underline: span.link ? {} : undefined,
+      break: span.text === "\n" ? 1 : undefined,
+    });
+
+    return span.link
+      ? new ExternalHyperlink({ link: span.link, children: [run] })
+      : run;
+  });
+}
+
+function quoteFormatting(context: BlockContext) {
+  if (!context.quote) {
+    return context.indent ? { indent: { left: context.indent } } : {};
+  }
+
+  return {
+    indent: { left: context.indent },
+    border: {
+      left: {
+        style: BorderStyle.SINGLE,
+        size: 18,
+        color: context.colors.border,
+        space: 8,
+      },
+    },
+  };
+}
+
+function renderList(
+  list: Extract<DocumentBlock, { type: "list" }>,
+  context: BlockContext,
+  numbering: NumberingState,
+): BodyChild[] {
+  const instance = numbering.next++;
+  const level = Math.min(context.level, 8);
+  if (list.ordered) numbering.starts.add(list.start);
+
+  return list.items.flatMap((item) => {
+    const [first, ...rest] = item.blocks;
+    const marker = list.ordered
+      ? {
+          numbering: {
+            reference: orderedListReference(list.start),
+            level,
+            instance,
+          },
+        }
+      : { bullet: { level } };
+
+    const leadSpans =
+      first?.type === "paragraph" || first?.type === "heading" ? first.spans : [];
+    const lead = new Paragraph({
+      children: toRuns(leadSpans, context),
+      ...marker,
+    });
+    const remaining = leadSpans.length || !first ? rest : item.blocks;
+
+    return [
+      lead,
+      ...renderBlocks(
+        remaining,
+        {
+          ...context,
+          level: context.level + 1,
+          indent: context.indent + 720 * (level + 1),
+        },
+        numbering,
+      ),
+    ];
+  });
+}
+
+function renderTable(
+  table: Extract<DocumentBlock, { type: "table" }>,
+  parent: BlockContext,
+) {
+  const columns = Math.max(table.header.length, 1);
+  const context = { ...parent, level: 0, indent: 0, quote: false };
+  const { colors } = context;
+
+  const row = (cells: InlineSpan[][], header: boolean) =>
+    new TableRow({
+      tableHeader: header,
+      children: cells.map(
+        (cell, column) =>
+          new TableCell({
+            shading: header
+              ? { type: ShadingType.CLEAR, color: "auto", fill: colors.tableHeader }
+              : undefined,
+            children: [
+              new Paragraph({
+                alignment: toAlignment(table.align[column]),
+                children: toRuns(
+                  header ? cell.map((span) => ({ ...span, bold: true })) : cell,
+                  context,
+                ),
+              }),
+            ],
+          }),
+      ),
+    });
+
+  const border = { style: BorderStyle.SINGLE, size: 4, color: colors.border };
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    columnWidths: Array.from({ length: columns }, () =>
+      Math.floor(9000 / columns),
+    ),
+    borders: {
+      top: border,
+      bottom: border,
+      left: border,
+      right: border,
+      insideHorizontal: border,
+      insideVertical: border,
+    },
+    rows: [
+      row(table.header, true),
+      ...table.rows.map((cells) => row(cells, false)),
+    ],
+  });
+}
+
+function orderedListReference(start: number) {
+  return `${ORDERED_LIST_REFERENCE}-${start}`;
+}
+
+function toAlignment(align: TableAlign) {
+  switch (align) {
+    case "center":
+      return AlignmentType.CENTER;
+    case "right":
+      return AlignmentType.RIGHT;
+    default:
+      return AlignmentType.LEFT;
+  }
+}
+
+/**
+ * An image centred at up to its natural size (docx measures in 96 dpi
+ * pixels) and at most 480px tall, followed by an italic caption.
+ */
+function renderImage(
+  block: Extract<DocumentBlock, { type: "image" }>,
+  context: BlockContext,
+): Paragraph[] {
+  const caption = block.caption
+    ? [
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 },
+          children: [
+            new TextRun({
+              text: block.caption,
+              italics: true,
+              color: context.colors.muted,
+            }),
+          ],
+        }),
+      ]
+    : [];
+
+  if (!block.image) return caption;
+
+  // 15 twips per pixel at 96 dpi.
+  const maxWidth = (context.textWidth - context.indent) / 15;
+  const scale = Math.min(
+    maxWidth / block.image.width,
+    480 / block.image.height,
+    1,
+  );
+
+  return [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      indent: context.indent ? { left: context.indent } : undefined,
+      keepNext: Boolean(caption.length),
+      spacing: { before: 120, after: caption.length ? 60 : 200 },
+      children: [
+        new ImageRun({
+          type: block.image.type,
+          data: block.image.data,
+          transformation: {
+            width: Math.round(block.image.width * scale),
+            height: Math.round(block.image.height * scale),
+          },
+          altText: block.caption
+            ? { name: block.caption, description: block.caption }
+            : undefined,
+        }),
+      ],
+    }),
+    ...caption,
+  ];
+}
+
+function renderCode(text: string, context: BlockContext): Paragraph[] {
+  const lines = text.split("\n");
+
+  return [
+    new Paragraph({
+      indent: context.indent ? { left: context.indent } : undefined,
+      shading: {
+        type: ShadingType.CLEAR,
+        color: "auto",
+        fill: context.colors.codeBackground,
+      },
+      children: lines.map(
+        (line, index) =>
+          new TextRun({
+            text: line,
+            font: context.monoFont,
+            size: 18,
+            break: index > 0 ? 1 : undefined,
+          }),
+      ),
+    }),
+  ];
+}
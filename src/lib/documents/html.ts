@@ -0,0 +1,53 @@
+import { marked } from "marked";
+
+const STYLESHEET = `
+  body { margin: 0 auto; max-width: 48rem; padding: 2.5rem 1.5rem; font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2937; }
+  h1, h2, h3 { line-height: 1.25; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; }
+  th { background: #f3f4f6; }
+  pre { overflow-x: auto; padding: 0.75rem 1rem; background: #f3f4f6; border-radius: 6px; }
+  blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #9ca3af; color: #4b5563; }
+  img { max-width: 100%; }
+`;
+
+/**
+ * Produces a standalone HTML file. A full document is kept as written (with a
+ * doctype added if missing); a fragment is wrapped in a page with a basic
+ * stylesheet, and content without any tags is treated as Markdown.
+ */
+export function renderHtml(content: string, title: string): string {
+  const trimmed = content.trim();
+
+  if (/^(<!doctype html|<html[\s>])/i.test(trimmed)) {
+    return /^<!doctype/i.test(trimmed)
+      ? `${trimmed}\n`
+      : `<!DOCTYPE html>\n${trimmed}\n`;
+  }
+
+  const body = /<[a-z][^>]*>/i.test(trimmed)
+    ? trimmed
+    : (marked.parse(trimmed, { async: false }) as string);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLESHEET}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,146 @@
+import sharp from "sharp";
+import { parseChartSpec, renderChartSvg } from "@/lib/documents/charts";
+import { DocumentBlock, ImageSource } from "@/lib/documents/markdown";
+import { getBlobStore } from "@/lib/storage";
+import { UploadedFileMetadata } from "@/lib/types";
+
+/** A PNG or JPEG ready for PDFKit and docx, which accept nothing else. */
+export interface EmbeddedImage {
+  data: Buffer;
+  type: "png" | "jpg";
+  width: number;
+  height: number;
+}
+
+/** SVGs are rasterised at twice their size so they stay sharp in print. */
+const SVG_DENSITY = 144;
+
+export async function toEmbeddedImage(data: Buffer): Promise<EmbeddedImage> {
+  const isSvg = data.subarray(0, 512).toString("utf-8").includes("<svg");
+  const image = sharp(data, isSvg ? { density: SVG_DENSITY } : {});
+  const { format, width, height } = await image.metadata();
+
+  if (!width || !height) {
+    throw new Error("Image has no dimensions.");
+  }
+  if (format === "png" || format === "jpeg") {
+    return { data, type: format === "png" ? "png" : "jpg", width, height };
+  }
+
+  const { data: png, info } = await image
+    .rotate()
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { data: png, type: "png", width: info.width, height: info.height };
+}
+
+/**
+ * Loads the pixels behind every image block, including those nested in lists
+ * and quotes. Attachments must belong to the current conversation. Errors
+ * name the offending block so the model can correct its content.
+ */
+export async function resolveDocumentImages(
+  blocks: DocumentBlock[],
+  attachments: UploadedFileMetadata[],
+): Promise<DocumentBlock[]> {
+  return Promise.all(
+    blocks.map(async (block): Promise<DocumentBlock> => {
+      switch (block.type) {
+        case "image": {
+          const { data, caption } = await loadImageSource(
+            block.source,
+            attachments,
+          );
+          try {
+            return {
+              ...block,
+              caption: block.caption ?? caption,
+              image: await toEmbeddedImage(data),
+            };
+          } catch (error) {
+            throw new Error(
+              `Could not read image ${describeSource(block.source)}: ${(error as Error).message}`,
+            );
+          }
+        }
+        case "list":
+          return {
+            ...block,
+            items: await Promise.all(
+              block.items.map(async (item) => ({
+                blocks: await resolveDocumentImages(item.blocks, attachments),
+              })),
+            ),
+          };
+        case "blockquote":
+          return {
+            ...block,
+            blocks: await resolveDocumentImages(block.blocks, attachments),
+          };
+        default:
+          return block;
+      }
+    }),
+  );
+}
+
+async function loadImageSource(
+  source: ImageSource,
+  attachments: UploadedFileMetadata[],
+): Promise<{ data: Buffer; caption?: string }> {
+  switch (source.kind) {
+    case "attachment": {
+      const attachment = attachments.find(
+        (candidate) => candidate.id === source.id,
+      );
+      if (!attachment || attachment.category !== "image") {
+        const available = attachments
+          .filter((candidate) => candidate.category === "image")
+          .map((candidate) => `${candidate.id} (${candidate.originalName})`);
+        throw new Error(
+          `No image attachment with id "${source.id}" in this conversation. ${
+            available.length
+              ? `Image attachments: ${available.join(", ")}.`
+              : "The conversation has no image attachments."
+          }`,
+        );
+      }
+
+      const data = await getBlobStore().get("uploads", attachment.storedFilename);
+      if (!data) {
+        throw new Error(`Image "${attachment.originalName}" is no longer stored.`);
+      }
+      return { data };
+    }
+    case "dataUrl": {
+      const [header, payload = ""] = source.url.split(",", 2);
+      return {
+        data: header.endsWith(";base64")
+          ? Buffer.from(payload, "base64")
+          : Buffer.from(decodeURIComponent(payload), "utf-8"),
+      };
+    }
+    case "svg":
+      return { data: Buffer.from(source.svg, "utf-8") };
+    case "chart": {
+      const spec = parseChartSpec(source.spec);
+      return {
+        data: Buffer.from(renderChartSvg(spec), "utf-8"),
+        caption: spec.caption,
+      };
+    }
+  }
+}
+
+function describeSource(source: ImageSource) {
+  switch (source.kind) {
+    case "attachment":
+      return `attachment "${source.id}"`;
+    case "dataUrl":
+      return "from data URL";
+    case "svg":
+      return "in svg block";
+    case "chart":
+      return "in chart block";
+  }
+}
@@ -0,0 +1,215 @@
+import { lexer, Token, Tokens } from "marked";
+import type { EmbeddedImage } from "@/lib/documents/images";
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+/**
+ * Where an image block's pixels come from: an uploaded attachment
+ * (`attachment:<id>`), a PNG/JPEG/SVG data URL, a fenced ```svg block or a
+ * fenced ```chart spec. Remote URLs are never fetched.
+ */
+export type ImageSource =
+  | { kind: "attachment"; id: string }
+  | { kind: "dataUrl"; url: string }
+  | { kind: "svg"; svg: string }
+  | { kind: "chart"; spec: string };
+
+export interface ListItem {
+  blocks: DocumentBlock[];
+}
+
+export type DocumentBlock =
+  | { type: "heading"; level: number; spans: InlineSpan[] }
+  | { type: "paragraph"; spans: InlineSpan[] }
+  | { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+  | {
+      type: "table";
+      align: TableAlign[];
+      header: InlineSpan[][];
+      rows: InlineSpan[][][];
+    }
+  | { type: "code"; language?: string; text: string }
+  | { type: "blockquote"; blocks: DocumentBlock[] }
+  | {
+      type: "image";
+      source: ImageSource;
+      caption?: string;
+      /** Filled in by `resolveDocumentImages` before rendering. */
+      image?: EmbeddedImage;
+    }
+  | { type: "rule" };
+
+type SpanStyle = Omit<InlineSpan, "text">;
+
+/**
+ * Parses model-written Markdown into the block model shared by the PDF and
+ * DOCX renderers. Raw HTML is kept as literal text.
+ */
+export function parseMarkdown(markdown: string): DocumentBlock[] {
+  return toBlocks(lexer(markdown));
+}
+
+function toBlocks(tokens: Token[]): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case "heading":
+        blocks.push({
+          type: "heading",
+          level: token.depth,
+          spans: toSpans(token.tokens ?? []),
+        });
+        break;
+      case "paragraph": {
+        const image = toImageBlock(token.tokens ?? []);
+        blocks.push(
+          image ?? { type: "paragraph", spans: toSpans(token.tokens ?? []) },
+        );
+        break;
+      }
+      case "text":
+        // Tight list items carry bare text tokens instead of paragraphs.
+        blocks.push({
+          type: "paragraph",
+          spans: token.tokens?.length
+            ? toSpans(token.tokens)
+            : [{ text: decodeEntities(token.text) }],
+        });
+        break;
+      case "list": {
+        const list = token as Tokens.List;
+        blocks.push({
+          type: "list",
+          ordered: list.ordered,
+          start: typeof list.start === "number" ? list.start : 1,
+          items: list.items.map((item) => ({
+            blocks: toBlocks(item.tokens),
+          })),
+        });
+        break;
+      }
+      case "table": {
+        const table = token as Tokens.Table;
+        blocks.push({
+          type: "table",
+          align: table.align,
+          header: table.header.map((cell) => toSpans(cell.tokens)),
+          rows: table.rows.map((row) => row.map((cell) => toSpans(cell.tokens))),
+        });
+        break;
+      }
+      case "code":
+        if (token.lang === "chart" || token.lang === "svg") {
+          blocks.push({
+            type: "image",
+            source:
+              token.lang === "chart"
+                ? { kind: "chart", spec: token.text }
+                : { kind: "svg", svg: token.text },
+          });
+          break;
+        }
+        blocks.push({
+          type: "code",
+          language: token.lang || undefined,
+          text: token.text,
+        });
+        break;
+      case "blockquote":
+        blocks.push({ type: "blockquote", blocks: toBlocks(token.tokens ?? []) });
+        break;
+      case "hr":
+        blocks.push({ type: "rule" });
+        break;
+      case "html":
+        if (token.text.trim()) {
+          blocks.push({ type: "paragraph", spans: [{ text: token.text.trim() }] });
+        }
+        break;
+      default:
+        // `space` and anything unknown carry no content worth rendering.
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * A paragraph holding nothing but one embeddable image becomes an image block
+ * captioned with its title or alt text. Other images stay inline as alt text.
+ */
+function toImageBlock(tokens: Token[]): DocumentBlock | null {
+  const content = tokens.filter(
+    (token) => !(token.type === "text" && !token.raw.trim()),
+  );
+  const [token] = content;
+  if (content.length !== 1 || token.type !== "image") return null;
+
+  const href: string = token.href;
+  const caption = (token.title || token.text || "").trim() || undefined;
+
+  if (href.startsWith("attachment:")) {
+    return {
+      type: "image",
+      source: { kind: "attachment", id: href.slice("attachment:".length) },
+      caption,
+    };
+  }
+  if (/^data:image\/(png|jpe?g|svg\+xml)[;,]/i.test(href)) {
+    return { type: "image", source: { kind: "dataUrl", url: href }, caption };
+  }
+  return null;
+}
+
+function toSpans(tokens: Token[], style: SpanStyle = {}): InlineSpan[] {
+  return tokens.flatMap((token): InlineSpan[] => {
+    switch (token.type) {
+      case "strong":
+        return toSpans(token.tokens ?? [], { ...style, bold: true });
+      case "em":
+        return toSpans(token.tokens ?? [], { ...style, italic: true });
+      case "del":
+        return toSpans(token.tokens ?? [], { ...style, strike: true });
+      case "link":
+        return toSpans(token.tokens ?? [], { ...style, link: token.href });
+      case "codespan":
+        return [{ ...style, code: true, text: decodeEntities(token.text) }];
+      case "br":
+        return [{ ...style, text: "\n" }];
+      case "escape":
+        return [{ ...style, text: token.text }];
+      case "image":
+        return [{ ...style, italic: true, text: token.text || token.href }];
+      case "text":
+        return token.tokens?.length
+          ? toSpans(token.tokens, style)
+          : [{ ...style, text: decodeEntities(token.text) }];
+      default:
+        return [{ ...style, text: decodeEntities(token.raw) }];
+    }
+  });
+}
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function spansToPlainText(spans: InlineSpan[]) {
+  return spans.map((span) => span.text).join("");
+}
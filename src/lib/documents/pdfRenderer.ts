@@ -0,0 +1,621 @@
+import path from "node:path";
+import PDFDocument from "pdfkit";
+import { EmbeddedImage } from "@/lib/documents/images";
+import {
+  DocumentBlock,
+  InlineSpan,
+  spansToPlainText,
+} from "@/lib/documents/markdown";
+import {
+  DocumentTemplate,
+  fillTemplateText,
+  loadTemplateLogo,
+} from "@/lib/documents/templates";
+
+type Pdf = PDFKit.PDFDocument;
+
+interface FontFamily {
+  regular: string;
+  bold: string;
+  italic: string;
+  boldItalic: string;
+}
+
+interface Theme {
+  body: FontFamily;
+  heading: FontFamily;
+  mono: FontFamily;
+  colors: DocumentTemplate["colors"];
+}
+
+interface Frame {
+  x: number;
+  width: number;
+}
+
+interface TextStyle {
+  size: number;
+  color: string;
+  family: FontFamily;
+  bold?: boolean;
+  italic?: boolean;
+  align?: "left" | "center" | "right";
+}
+
+const STANDARD_FONTS: Record<string, FontFamily> = {
+  helvetica: {
+    regular: "Helvetica",
+    bold: "Helvetica-Bold",
+    italic: "Helvetica-Oblique",
+    boldItalic: "Helvetica-BoldOblique",
+  },
+  times: {
+    regular: "Times-Roman",
+    bold: "Times-Bold",
+    italic: "Times-Italic",
+    boldItalic: "Times-BoldItalic",
+  },
+  courier: {
+    regular: "Courier",
+    bold: "Courier-Bold",
+    italic: "Courier-Oblique",
+    boldItalic: "Courier-BoldOblique",
+  },
+};
+
+const FONT_ALIASES: Record<string, string> = {
+  arial: "helvetica",
+  "times new roman": "times",
+  "times-roman": "times",
+  "courier new": "courier",
+};
+
+/** Heading sizes relative to the template's body size. */
+const HEADING_SCALE = [2, 1.64, 1.36, 1.18, 1.09, 1];
+const HEADER_SIZE = 8.5;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CELL_PADDING = 4;
+
+export async function renderPdf(
+  blocks: DocumentBlock[],
+  template: DocumentTemplate,
+  title: string,
+): Promise<Buffer> {
+  const logo = await loadTemplateLogo(template);
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({
+      margin: template.margin,
+      bufferPages: true,
+      info: { Title: title },
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", (err) => reject(err));
+
+    const theme: Theme = {
+      body: resolveFontFamily(doc, template, template.fonts.body),
+      heading: resolveFontFamily(doc, template, template.fonts.heading),
+      mono: resolveFontFamily(doc, template, template.fonts.mono),
+      colors: template.colors,
+    };
+    const frame = {
+      x: doc.page.margins.left,
+      width: doc.page.width - doc.page.margins.left - doc.page.margins.right,
+    };
+
+    let content = blocks;
+    if (template.titlePage) {
+      renderTitlePage(doc, theme, template, title, logo, frame);
+      doc.addPage();
+      // The title page already shows the document's leading H1.
+      if (content[0]?.type === "heading" && content[0].level === 1) {
+        content = content.slice(1);
+      }
+    }
+
+    renderBlocks(doc, theme, content, frame, {
+      size: template.bodySize,
+      color: theme.colors.text,
+      family: theme.body,
+    });
+
+    renderPageChrome(doc, theme, template, title, logo, frame);
+
+    doc.end();
+  });
+}
+
+function renderTitlePage(
+  doc: Pdf,
+  theme: Theme,
+  template: DocumentTemplate,
+  title: string,
+  logo: EmbeddedImage | null,
+  frame: Frame,
+) {
+  let y = doc.page.height * 0.3;
+
+  if (logo) {
+    drawLogo(doc, logo, frame.x, y - 100, frame.width, 80, true);
+  }
+
+  doc
+    .font(theme.heading.bold)
+    .fontSize(template.bodySize * 2.6)
+    .fillColor(theme.colors.heading)
+    .text(title, frame.x, y, { width: frame.width, align: "center" });
+  y = doc.y + 12;
+
+  doc
+    .moveTo(frame.x + frame.width * 0.3, y)
+    .lineTo(frame.x + frame.width * 0.7, y)
+    .lineWidth(1.5)
+    .strokeColor(theme.colors.accent)
+    .stroke();
+
+  doc
+    .font(theme.body.regular)
+    .fontSize(template.bodySize * 1.3)
+    .fillColor(theme.colors.muted);
+  if (template.subtitle) {
+    doc.text(fillTemplateText(template.subtitle, title), frame.x, y + 18, {
+      width: frame.width,
+      align: "center",
+    });
+  }
+  doc.text(fillTemplateText("{date}", title), frame.x, doc.y + 6, {
+    width: frame.width,
+    align: "center",
+  });
+}
+
+/**
+ * Draws headers, footers and page numbers once every page exists, so the
+ * total page count is known. The title page is left bare and not counted.
+ */
+function renderPageChrome(
+  doc: Pdf,
+  theme: Theme,
+  template: DocumentTemplate,
+  title: string,
+  logo: EmbeddedImage | null,
+  frame: Frame,
+) {
+  const header = template.header ? fillTemplateText(template.header, title) : "";
+  const footer = template.footer ? fillTemplateText(template.footer, title) : "";
+  if (!header && !footer && !template.pageNumbers && !logo) return;
+
+  const { start, count } = doc.bufferedPageRange();
+  const first = template.titlePage ? start + 1 : start;
+  const total = start + count - first;
+
+  for (let index = first; index < start + count; index += 1) {
+    doc.switchToPage(index);
+    const page = doc.page;
+    const bottomMargin = page.margins.bottom;
+    // Text below the bottom margin would otherwise start a new page.
+    page.margins.bottom = 0;
+
+    const headerY = Math.max(page.margins.top / 2 - HEADER_SIZE, 12);
+    const footerY = page.height - bottomMargin / 2;
+    const options = { width: frame.width, lineBreak: false };
+
+    doc.font(theme.body.regular).fontSize(HEADER_SIZE).fillColor(theme.colors.muted);
+
+    if (logo) {
+      drawLogo(doc, logo, frame.x, headerY - 4, frame.width / 3, 18, false);
+    }
+    if (header) {
+      doc.text(header, frame.x, headerY, { ...options, align: "right" });
+    }
+    if (header || logo) {
+      doc
+        .moveTo(frame.x, headerY + HEADER_SIZE + 6)
+        .lineTo(frame.x + frame.width, headerY + HEADER_SIZE + 6)
+        .lineWidth(0.5)
+        .strokeColor(theme.colors.border)
+        .stroke();
+    }
+    if (footer) {
+      doc.text(footer, frame.x, footerY, { ...options, align: "left" });
+    }
+    if (template.pageNumbers) {
+      doc.text(`Page ${index - first + 1} of ${total}`, frame.x, footerY, {
+        ...options,
+        align: "right",
+      });
+    }
+
+    page.margins.bottom = bottomMargin;
+  }
+}
+
+function drawLogo(
+  doc: Pdf,
+  logo: EmbeddedImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  centered: boolean,
+) {
+  try {
+    doc.image(logo.data, x, y, {
+      fit: [width, height],
+      align: centered ? "center" : undefined,
+      valign: "center",
+    });
+  } catch (error) {
+    console.warn("[documents] Could not draw template logo", error);
+  }
+}
+
+/**
+ * Maps a template font name to PDFKit fonts: the standard 14 PDF fonts by
+ * name, or files listed in the template's `fontFiles`.
+ */
+function resolveFontFamily(
+  doc: Pdf,
+  template: DocumentTemplate,
+  name: string,
+): FontFamily {
+  const files = template.fontFiles?.[name];
+
+  if (files) {
+    const register = (variant: keyof FontFamily, file: string | undefined) => {
+      const alias = `${name}-${variant}`;
+      doc.registerFont(alias, path.resolve(process.cwd(), file ?? files.regular));
+      return alias;
+    };
+    return {
+      regular: register("regular", files.regular),
+      bold: register("bold", files.bold),
+      italic: register("italic", files.italic),
+      boldItalic: register("boldItalic", files.boldItalic ?? files.bold),
+    };
+  }
+
+  const key = name.toLowerCase();
+  const family = STANDARD_FONTS[FONT_ALIASES[key] ?? key];
+  if (!family) {
+    console.warn(
+      `[documents] Font "${name}" has no fontFiles entry; using Helvetica in PDFs.`,
+    );
+  }
+  return family ?? STANDARD_FONTS.helvetica;
+}
+
+function renderBlocks(
+  doc: Pdf,
+  theme: Theme,
+  blocks: DocumentBlock[],
+  frame: Frame,
+  style: TextStyle,
+  gap = 0.5,
+) {
+  for (const block of blocks) {
+    switch (block.type) {
+      case "heading": {
+        const size = style.size * (HEADING_SCALE[block.level - 1] ?? 1);
+        if (doc.y > doc.page.margins.top) doc.moveDown(0.4);
+        ensureSpace(doc, size * 2.5);
+        writeSpans(doc, theme, block.spans, frame, {
+          ...style,
+          size,
+          family: theme.heading,
+          color: style.italic ? style.color : theme.colors.heading,
+          bold: true,
+        });
+        doc.moveDown(0.3);
+        break;
+      }
+      case "paragraph":
+        writeSpans(doc, theme, block.spans, frame, style);
+        doc.moveDown(gap);
+        break;
+      case "list":
+        renderList(doc, theme, block, frame, style);
+        doc.moveDown(gap);
+        break;
+      case "table":
+        renderTable(doc, theme, block, frame, style);
+        doc.moveDown(gap);
+        break;
+      case "code":
+        renderCode(doc, theme, block.text, frame, style.size);
+        doc.moveDown(gap);
+        break;
+      case "blockquote":
+        renderQuote(doc, theme, block.blocks, frame, style);
+        doc.moveDown(gap);
+        break;
+      case "image":
+        renderImage(doc, theme, block, frame, style);
+        doc.moveDown(gap);
+        break;
+      case "rule": {
+        ensureSpace(doc, 12);
+        const y = doc.y + 4;
+        doc
+          .moveTo(frame.x, y)
+          .lineTo(frame.x + frame.width, y)
+          .lineWidth(0.75)
+          .strokeColor(theme.colors.border)
+          .stroke();
+        doc.y = y + 8;
+        break;
+      }
+    }
+  }
+
+  doc.x = frame.x;
+}
+
+/**
+ * Writes styled spans as one flowing paragraph. PDFKit keeps font, colour and
+ * link state across `continued` calls, so every span sets all of them.
+ */
+function writeSpans(
+  doc: Pdf,
+  theme: Theme,
+  spans: InlineSpan[],
+  frame: Frame,
+  style: TextStyle,
+  y = doc.y,
+) {
+  const visible = spans.filter((span) => span.text.length);
+  if (!visible.length) return;
+
+  doc.fontSize(style.size);
+
+  visible.forEach((span, index) => {
+    const options: PDFKit.Mixins.TextOptions = {
+      width: frame.width,
+      align: style.align,
+      continued: index < visible.length - 1,
+      link: span.link ?? null,
+      underline: Boolean(span.link),
+      strike: Boolean(span.strike),
+    };
+
+    doc
+      .font(fontFor(span, style, theme))
+      .fillColor(span.link ? theme.colors.accent : style.color);
+
+    if (index === 0) {
+      doc.text(span.text, frame.x, y, options);
+    } else {
+      doc.text(span.text, options);
+    }
+  });
+
+  doc.fillColor(theme.colors.text);
+}
+
+function fontFor(span: InlineSpan, style: TextStyle, theme: Theme) {
+  const family = span.code ? theme.mono : style.family;
+  const bold = span.bold || style.bold;
+  const italic = span.italic || style.italic;
+
+  if (bold && italic) return family.boldItalic;
+  if (bold) return family.bold;
+  if (italic) return family.italic;
+  return family.regular;
+}
+
+function renderList(
+  doc: Pdf,
+  theme: Theme,
+  list: Extract<DocumentBlock, { type: "list" }>,
+  frame: Frame,
+  style: TextStyle,
+) {
+  const itemFrame = { x: frame.x + LIST_INDENT, width: frame.width - LIST_INDENT };
+
+  list.items.forEach((item, index) => {
+    ensureSpace(doc, style.size * 1.6);
+    const y = doc.y;
+
+    doc
+      .font(style.family.regular)
+      .fontSize(style.size)
+      .fillColor(style.color)
+      .text(list.ordered ? `${list.start + index}.` : "•", frame.x, y, {
+        width: LIST_INDENT - 4,
+        lineBreak: false,
+      });
+
+    doc.y = y;
+    renderBlocks(doc, theme, item.blocks, itemFrame, style, 0.15);
+  });
+
+  doc.x = frame.x;
+}
+
+function renderTable(
+  doc: Pdf,
+  theme: Theme,
+  table: Extract<DocumentBlock, { type: "table" }>,
+  frame: Frame,
+  style: TextStyle,
+) {
+  const columns = Math.max(table.header.length, 1);
+  const columnWidth = frame.width / columns;
+  const size = Math.max(style.size - 1.5, 8);
+
+  const drawRow = (cells: InlineSpan[][], header: boolean) => {
+    doc.fontSize(size);
+    const cellHeight = (cell: InlineSpan[]) => {
+      doc.font(header ? style.family.bold : style.family.regular);
+      return doc.heightOfString(spansToPlainText(cell) || " ", {
+        width: columnWidth - CELL_PADDING * 2,
+      });
+    };
+    const rowHeight =
+      Math.max(...cells.map(cellHeight), size) + CELL_PADDING * 2;
+
+    if (doc.y + rowHeight > doc.page.maxY()) {
+      doc.addPage();
+      // Repeat the header row at the top of each continuation page.
+      if (!header) drawRow(table.header, true);
+    }
+
+    const y = doc.y;
+
+    if (header) {
+      doc.rect(frame.x, y, frame.width, rowHeight).fill(theme.colors.tableHeader);
+    }
+
+    cells.forEach((cell, column) => {
+      const x = frame.x + column * columnWidth;
+      doc
+        .rect(x, y, columnWidth, rowHeight)
+        .lineWidth(0.5)
+        .strokeColor(theme.colors.border)
+        .stroke();
+      writeSpans(
+        doc,
+        theme,
+        cell,
+        { x: x + CELL_PADDING, width: columnWidth - CELL_PADDING * 2 },
+        {
+          size,
+          color: style.color,
+          family: style.family,
+          bold: header,
+          align: table.align[column] ?? undefined,
+        },
+        y + CELL_PADDING,
+      );
+    });
+
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(table.header, true);
+  for (const row of table.rows) drawRow(row, false);
+
+  doc.x = frame.x;
+}
+
+function renderCode(
+  doc: Pdf,
+  theme: Theme,
+  text: string,
+  frame: Frame,
+  bodySize: number,
+) {
+  const innerWidth = frame.width - 16;
+
+  doc.font(theme.mono.regular).fontSize(Math.max(bodySize - 2, 7));
+  const height = doc.heightOfString(text || " ", { width: innerWidth }) + 12;
+  const pageHeight = doc.page.maxY() - doc.page.margins.top;
+
+  // Blocks longer than a page are written without a background box.
+  if (height <= pageHeight) {
+    ensureSpace(doc, height);
+    doc.rect(frame.x, doc.y, frame.width, height).fill(theme.colors.codeBackground);
+  }
+
+  const y = doc.y;
+  doc.fillColor(theme.colors.text).text(text, frame.x + 8, y + 6, {
+    width: innerWidth,
+  });
+  doc.y = Math.max(doc.y, y + height);
+  doc.x = frame.x;
+}
+
+/**
+ * Draws an image centred in the frame at up to its natural size (96 dpi) and
+ * at most half a page tall, with its caption underneath.
+ */
+function renderImage(
+  doc: Pdf,
+  theme: Theme,
+  block: Extract<DocumentBlock, { type: "image" }>,
+  frame: Frame,
+  style: TextStyle,
+) {
+  const captionStyle = {
+    size: Math.max(style.size - 1.5, 7),
+    color: theme.colors.muted,
+    family: theme.body,
+    italic: true,
+    align: "center" as const,
+  };
+  const caption = block.caption ? [{ text: block.caption }] : [];
+
+  if (!block.image) {
+    writeSpans(doc, theme, caption, frame, captionStyle);
+    return;
+  }
+
+  const { width: pixelWidth, height: pixelHeight } = block.image;
+  const maxHeight = (doc.page.maxY() - doc.page.margins.top) / 2;
+  const scale = Math.min(
+    frame.width / pixelWidth,
+    maxHeight / pixelHeight,
+    0.75,
+  );
+  const width = pixelWidth * scale;
+  const height = pixelHeight * scale;
+  const captionHeight = block.caption
+    ? doc
+        .font(theme.body.italic)
+        .fontSize(captionStyle.size)
+        .heightOfString(block.caption, { width: frame.width }) + 6
+    : 0;
+
+  ensureSpace(doc, height + captionHeight);
+  const y = doc.y;
+  doc.image(block.image.data, frame.x + (frame.width - width) / 2, y, {
+    width,
+    height,
+  });
+  doc.y = y + height + 6;
+
+  writeSpans(doc, theme, caption, frame, captionStyle);
+  doc.x = frame.x;
+}
+
+function renderQuote(
+  doc: Pdf,
+  theme: Theme,
+  blocks: DocumentBlock[],
+  frame: Frame,
+  style: TextStyle,
+) {
+  const page = doc.page;
+  const startY = doc.y;
+
+  renderBlocks(
+    doc,
+    theme,
+    blocks,
+    { x: frame.x + QUOTE_INDENT, width: frame.width - QUOTE_INDENT },
+    { ...style, color: theme.colors.muted, italic: true },
+    0.3,
+  );
+
+  // The bar is only drawn when the quote did not spill onto another page.
+  if (doc.page === page) {
+    doc
+      .moveTo(frame.x + 3, startY)
+      .lineTo(frame.x + 3, doc.y - 4)
+      .lineWidth(2.5)
+      .strokeColor(theme.colors.border)
+      .stroke();
+  }
+
+  doc.x = frame.x;
+}
+
+function ensureSpace(doc: Pdf, height: number) {
+  if (doc.y + height > doc.page.maxY()) {
+    doc.addPage();
+  }
+}
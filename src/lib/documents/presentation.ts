@@ -0,0 +1,374 @@
+import JSZip from "jszip";
+import PptxGenJS from "pptxgenjs";
+import {
+  DocumentBlock,
+  InlineSpan,
+  spansToPlainText,
+} from "@/lib/documents/markdown";
+
+interface SlideOutline {
+  title: string;
+  body: DocumentBlock[];
+  notes: string[];
+}
+
+type TextRun = PptxGenJS.TextProps;
+
+const COLORS = {
+  title: "1F2937",
+  text: "374151",
+  muted: "6B7280",
+  accent: "2563EB",
+  tableHeader: "F3F4F6",
+  border: "D1D5DB",
+};
+
+const FONT = "Calibri";
+const CODE_FONT = "Courier New";
+const SLIDE_WIDTH = 13.33;
+const MARGIN = 0.6;
+
+/**
+ * Splits a Markdown outline into slides: every `#`/`##` heading and every
+ * horizontal rule starts a new slide. A leading `#` heading followed only by
+ * paragraphs becomes a title slide, and block quotes become speaker notes.
+ */
+export function outlineToSlides(blocks: DocumentBlock[]): SlideOutline[] {
+  const slides: SlideOutline[] = [];
+  let current: SlideOutline | null = null;
+
+  for (const block of blocks) {
+    if (block.type === "heading" && block.level <= 2) {
+      current = { title: spansToPlainText(block.spans), body: [], notes: [] };
+      slides.push(current);
+      continue;
+    }
+    if (block.type === "rule") {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { title: "", body: [], notes: [] };
+      slides.push(current);
+    }
+    if (block.type === "blockquote") {
+      current.notes.push(blocksToPlainText(block.blocks));
+    } else {
+      current.body.push(block);
+    }
+  }
+
+  return slides;
+}
+
+export async function renderPptx(blocks: DocumentBlock[]): Promise<Buffer> {
+  const pptx = new PptxGenJS();
+  pptx.layout = "LAYOUT_WIDE";
+
+  const slides = outlineToSlides(blocks);
+  if (!slides.length) slides.push({ title: "", body: [], notes: [] });
+
+  slides.forEach((outline, index) => {
+    const slide = pptx.addSlide();
+    const isTitleSlide =
+      index === 0 &&
+      outline.title &&
+      outline.body.every((block) => block.type === "paragraph");
+
+    if (isTitleSlide) {
+      renderTitleSlide(slide, outline);
+    } else {
+      renderContentSlide(slide, outline);
+    }
+
+    if (outline.notes.length) slide.addNotes(outline.notes.join("\n\n"));
+  });
+
+  const output = await pptx.write({ outputType: "nodebuffer" });
+  return dedupeParagraphProperties(Buffer.from(output as Uint8Array));
+}
+
+/**
+ * pptxgenjs writes an `<a:pPr>` before every run of a paragraph, but the
+ * schema allows one per paragraph and PowerPoint offers to repair such files.
+ * Keeps the first one of each paragraph.
+ */
+async function dedupeParagraphProperties(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  const slides = Object.keys(zip.files).filter((name) =>
+    /^ppt\/slides\/slide\d+\.xml$/.test(name),
+  );
+
+  for (const name of slides) {
+    const xml = await zip.file(name)!.async("string");
+    zip.file(
+      name,
+      xml.replace(/<a:p>([\s\S]*?)<\/a:p>/g, (paragraph) => {
+        let seen = false;
+        return paragraph.replace(/<a:pPr[^>]*>[\s\S]*?<\/a:pPr>/g, (props) => {
+          if (seen) return "";
+          seen = true;
+          return props;
+        });
+      }),
+    );
+  }
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+function renderTitleSlide(slide: PptxGenJS.Slide, outline: SlideOutline) {
+  slide.addText(outline.title, {
+    x: MARGIN,
+    y: 2.3,
+    w: SLIDE_WIDTH - MARGIN * 2,
+    h: 1.4,
+    fontFace: FONT,
+    fontSize: 40,
+    bold: true,
+    color: COLORS.title,
+    align: "center",
+    fit: "shrink",
+  });
+
+  const subtitle = outline.body.flatMap((block) =>
+    block.type === "paragraph" ? paragraphRuns(block.spans) : [],
+  );
+  if (subtitle.length) {
+    slide.addText(subtitle, {
+      x: MARGIN,
+      y: 3.8,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      h: 1.2,
+      fontFace: FONT,
+      fontSize: 20,
+      color: COLORS.muted,
+      align: "center",
+      valign: "top",
+      fit: "shrink",
+    });
+  }
+}
+
+function renderContentSlide(slide: PptxGenJS.Slide, outline: SlideOutline) {
+  let top = MARGIN;
+
+  if (outline.title) {
+    slide.addText(outline.title, {
+      x: MARGIN,
+      y: top,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      h: 0.9,
+      fontFace: FONT,
+      fontSize: 30,
+      bold: true,
+      color: COLORS.title,
+      valign: "middle",
+      fit: "shrink",
+    });
+    top += 1.1;
+  }
+
+  // Only the first table or image of a slide is drawn; there is no room for
+  // more.
+  const visual = outline.body.find(
+    (block) =>
+      block.type === "table" || (block.type === "image" && block.image),
+  );
+  const runs = outline.body.flatMap((block) => blockRuns(block, 0));
+  const available = 7.5 - MARGIN - top;
+  const textHeight = visual ? available * 0.4 : available;
+
+  if (runs.length) {
+    slide.addText(runs, {
+      x: MARGIN,
+      y: top,
+      w: SLIDE_WIDTH - MARGIN * 2,
+      h: textHeight,
+      fontFace: FONT,
+      fontSize: 18,
+      color: COLORS.text,
+      valign: "top",
+      paraSpaceAfter: 6,
+      fit: "shrink",
+    });
+    top += textHeight + 0.2;
+  }
+
+  if (visual?.type === "image") {
+    renderSlideImage(slide, visual, top, 7.5 - MARGIN - top);
+    return;
+  }
+
+  const table = visual?.type === "table" ? visual : null;
+  if (table) {
+    slide.addTable(
+      [
+        table.header.map((cell, column) => ({
+          text: spansToPlainText(cell),
+          options: {
+            bold: true,
+            fill: { color: COLORS.tableHeader },
+            align: table.align[column] ?? undefined,
+          },
+        })),
+        ...table.rows.map((row) =>
+          row.map((cell, column) => ({
+            text: spansToPlainText(cell),
+            options: { align: table.align[column] ?? undefined },
+          })),
+        ),
+      ],
+      {
+        x: MARGIN,
+        y: top,
+        w: SLIDE_WIDTH - MARGIN * 2,
+        fontFace: FONT,
+        fontSize: 14,
+        color: COLORS.text,
+        border: { type: "solid", pt: 0.75, color: COLORS.border },
+        autoPage: false,
+      },
+    );
+  }
+}
+
+function renderSlideImage(
+  slide: PptxGenJS.Slide,
+  block: Extract<DocumentBlock, { type: "image" }>,
+  top: number,
+  height: number,
+) {
+  if (!block.image) return;
+
+  const captionHeight = block.caption ? 0.4 : 0;
+  const boxWidth = SLIDE_WIDTH - MARGIN * 2;
+  const boxHeight = height - captionHeight;
+  const scale = Math.min(
+    boxWidth / block.image.width,
+    boxHeight / block.image.height,
+  );
+  const w = block.image.width * scale;
+  const h = block.image.height * scale;
+
+  slide.addImage({
+    data: `image/${block.image.type === "png" ? "png" : "jpeg"};base64,${block.image.data.toString("base64")}`,
+    x: MARGIN + (boxWidth - w) / 2,
+    y: top,
+    w,
+    h,
+    altText: block.caption,
+  });
+
+  if (block.caption) {
+    slide.addText(block.caption, {
+      x: MARGIN,
+      y: top + h + 0.05,
+      w: boxWidth,
+      h: captionHeight,
+      fontFace: FONT,
+      fontSize: 12,
+      italic: true,
+      color: COLORS.muted,
+      align: "center",
+    });
+  }
+}
+
+function blockRuns(block: DocumentBlock, indentLevel: number): TextRun[] {
+  switch (block.type) {
+    case "heading":
+      return paragraphRuns(block.spans, { bold: true, color: COLORS.accent });
+    case "paragraph":
+      return paragraphRuns(block.spans, indentLevel ? { indentLevel } : {});
+    case "list":
+      return block.items.flatMap((item) => {
+        const [first, ...rest] = item.blocks;
+        const bullet = block.ordered
+          ? { type: "number" as const, numberStartAt: block.start }
+          : true;
+        const lead =
+          first?.type === "paragraph"
+            ? paragraphRuns(first.spans, { bullet, indentLevel })
+            : [];
+        const remaining = lead.length ? rest : item.blocks;
+        return [
+          ...lead,
+          ...remaining.flatMap((child) => blockRuns(child, indentLevel + 1)),
+        ];
+      });
+    case "code":
+      return [
+        {
+          text: block.text,
+          options: { fontFace: CODE_FONT, fontSize: 14, breakLine: true },
+        },
+      ];
+    case "blockquote":
+      return block.blocks.flatMap((child) =>
+        blockRuns(child, indentLevel).map((run) => ({
+          ...run,
+          options: { ...run.options, italic: true, color: COLORS.muted },
+        })),
+      );
+    case "table":
+    case "image":
+    case "rule":
+      return [];
+  }
+}
+
+/**
+ * One paragraph of runs. Paragraph-level options (bullets, indent) go on the
+ * first run and the last run closes the paragraph with a line break.
+ */
+function paragraphRuns(
+  spans: InlineSpan[],
+  paragraph: PptxGenJS.TextPropsOptions = {},
+): TextRun[] {
+  const visible = spans.filter((span) => span.text.length);
+  if (!visible.length) return [];
+
+  return visible.map((span, index) => ({
+    text: span.text,
+    options: {
+      ...(index === 0 ? paragraph : {}),
+      bold: span.bold || paragraph.bold,
+      italic: span.italic,
+      strike: span.strike ? "sngStrike" : undefined,
+      fontFace: span.code ? CODE_FONT : undefined,
+      color: span.link ? COLORS.accent : paragraph.color,
+      hyperlink: span.link ? { url: span.link } : undefined,
+      breakLine: index === visible.length - 1,
+    },
+  }));
+}
+
+function blocksToPlainText(blocks: DocumentBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+        case "paragraph":
+          return spansToPlainText(block.spans);
+        case "list":
+          return block.items
+            .map((item) => `- ${blocksToPlainText(item.blocks)}`)
+            .join("\n");
+        case "code":
+          return block.text;
+        case "blockquote":
+          return blocksToPlainText(block.blocks);
+        case "table":
+          return [block.header, ...block.rows]
+            .map((row) => row.map(spansToPlainText).join(" | "))
+            .join("\n");
+        case "image":
+          return block.caption ?? "";
+        case "rule":
+          return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,158 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+
+const typedCellSchema = z.object({
+  type: z.union([
+    z.literal("string"),
+    z.literal("number"),
+    z.literal("boolean"),
+    z.literal("date"),
+    z.literal("formula"),
+  ]),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+  /** Excel number format such as `0.00%` or `yyyy-mm-dd`. */
+  format: z.string().optional(),
+});
+
+const cellSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  typedCellSchema,
+]);
+
+const sheetSchema = z.object({
+  name: z.string().min(1).max(31),
+  columns: z.array(z.string()).optional(),
+  rows: z.array(z.array(cellSchema)),
+});
+
+export const spreadsheetSpecSchema = z.object({
+  sheets: z.array(sheetSchema).min(1),
+});
+
+export type SpreadsheetSpec = z.infer<typeof spreadsheetSpecSchema>;
+type SpreadsheetCell = z.infer<typeof cellSchema>;
+
+export const SPREADSHEET_CONTENT_HINT =
+  'XLSX content must be JSON: {"sheets":[{"name":"Sheet1","columns":["Item","Amount"],"rows":[["Rent",1200],["Paid",{"type":"date","value":"2024-05-01"}]]}]}. Cells are strings, numbers, booleans, null or {"type":"string|number|boolean|date|formula","value":…,"format":"0.00%"}.';
+
+/**
+ * Parses the model's sheet description. Errors are phrased for the model so a
+ * failed tool call tells it how to fix the content.
+ */
+export function parseSpreadsheetSpec(content: string): SpreadsheetSpec {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid XLSX content: ${(error as Error).message}. ${SPREADSHEET_CONTENT_HINT}`,
+    );
+  }
+
+  const parsed = spreadsheetSpecSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid XLSX content: ${z.prettifyError(parsed.error)}. ${SPREADSHEET_CONTENT_HINT}`,
+    );
+  }
+
+  return parsed.data;
+}
+
+export async function renderXlsx(spec: SpreadsheetSpec): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const usedNames = new Set<string>();
+
+  for (const sheet of spec.sheets) {
+    const worksheet = workbook.addWorksheet(uniqueSheetName(sheet.name, usedNames));
+    const widths: number[] = [];
+
+    const addRow = (cells: SpreadsheetCell[]) => {
+      const row = worksheet.addRow([]);
+      cells.forEach((cell, index) => {
+        const target = row.getCell(index + 1);
+        applyCell(target, cell);
+        widths[index] = Math.max(
+          widths[index] ?? 0,
+          String(displayValue(cell)).length,
+        );
+      });
+      return row;
+    };
+
+    if (sheet.columns?.length) {
+      const header = addRow(sheet.columns);
+      header.font = { bold: true };
+      header.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFF3F4F6" },
+      };
+      worksheet.views = [{ state: "frozen", ySplit: 1 }];
+    }
+
+    for (const cells of sheet.rows) addRow(cells);
+
+    widths.forEach((width, index) => {
+      worksheet.getColumn(index + 1).width = Math.min(Math.max(width + 2, 8), 60);
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function applyCell(target: ExcelJS.Cell, cell: SpreadsheetCell) {
+  if (cell === null || typeof cell !== "object") {
+    target.value = cell;
+    return;
+  }
+
+  switch (cell.type) {
+    case "formula":
+      target.value = { formula: String(cell.value).replace(/^=/, "") };
+      break;
+    case "date": {
+      const date = new Date(String(cell.value));
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid XLSX content: "${cell.value}" is not a date.`);
+      }
+      target.value = date;
+      target.numFmt = cell.format ?? "yyyy-mm-dd";
+      break;
+    }
+    case "number": {
+      const value = Number(cell.value);
+      if (Number.isNaN(value)) {
+        throw new Error(`Invalid XLSX content: "${cell.value}" is not a number.`);
+      }
+      target.value = value;
+      break;
+    }
+    case "boolean":
+      target.value = cell.value === true || cell.value === "true";
+      break;
+    default:
+      target.value = String(cell.value);
+  }
+
+  if (cell.format && cell.type !== "date") target.numFmt = cell.format;
+}
+
+function displayValue(cell: SpreadsheetCell) {
+  if (cell === null) return "";
+  return typeof cell === "object" ? cell.value : cell;
+}
+
+/** Excel rejects duplicate names and `\ / ? * [ ] :` in sheet names. */
+function uniqueSheetName(name: string, usedNames: Set<string>) {
+  const base = name.replace(/[\\/?*[\]:]/g, "_").slice(0, 31) || "Sheet";
+  let candidate = base;
+  for (let suffix = 2; usedNames.has(candidate.toLowerCase()); suffix += 1) {
+    candidate = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
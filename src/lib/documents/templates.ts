@@ -0,0 +1,210 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { EmbeddedImage, toEmbeddedImage } from "@/lib/documents/images";
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected #rrggbb.");
+
+const fontFilesSchema = z.object({
+  regular: z.string(),
+  bold: z.string().optional(),
+  italic: z.string().optional(),
+  boldItalic: z.string().optional(),
+});
+
+const templateSchema = z.object({
+  description: z.string().optional(),
+  fonts: z.object({
+    body: z.string(),
+    heading: z.string(),
+    mono: z.string(),
+  }),
+  /**
+   * TrueType/OpenType files for PDF output, keyed by font name. DOCX output
+   * only names the font, so it must be installed where the file is opened.
+   */
+  fontFiles: z.record(z.string(), fontFilesSchema).optional(),
+  colors: z.object({
+    text: hexColor,
+    heading: hexColor,
+    accent: hexColor,
+    muted: hexColor,
+    border: hexColor,
+    tableHeader: hexColor,
+    codeBackground: hexColor,
+  }),
+  bodySize: z.number().min(6).max(24),
+  /** Page margins in points. */
+  margin: z.number().min(18).max(144),
+  /** Image path relative to the working directory; PNG or JPEG embed as-is. */
+  logo: z.string().optional(),
+  titlePage: z.boolean(),
+  /** Line under the title on the title page, e.g. the company name. */
+  subtitle: z.string().optional(),
+  /** Header and footer text; `{title}` and `{date}` are substituted. */
+  header: z.string().optional(),
+  footer: z.string().optional(),
+  pageNumbers: z.boolean(),
+});
+
+export type DocumentTemplate = z.infer<typeof templateSchema> & {
+  name: string;
+};
+
+const DEFAULT_TEMPLATE: z.infer<typeof templateSchema> = {
+  description: "Running title header and page numbers.",
+  fonts: { body: "Helvetica", heading: "Helvetica", mono: "Courier" },
+  colors: {
+    text: "#1f2937",
+    heading: "#111827",
+    accent: "#1d4ed8",
+    muted: "#4b5563",
+    border: "#d1d5db",
+    tableHeader: "#f3f4f6",
+    codeBackground: "#f3f4f6",
+  },
+  bodySize: 11,
+  margin: 56,
+  titlePage: false,
+  header: "{title}",
+  pageNumbers: true,
+};
+
+const BUILT_IN_TEMPLATES: Record<string, z.infer<typeof templateSchema>> = {
+  default: DEFAULT_TEMPLATE,
+  report: {
+    ...DEFAULT_TEMPLATE,
+    description: "Title page, serif body text, header and page numbers.",
+    fonts: { body: "Times", heading: "Helvetica", mono: "Courier" },
+    titlePage: true,
+    footer: "{date}",
+  },
+  plain: {
+    ...DEFAULT_TEMPLATE,
+    description: "No header, footer or page numbers.",
+    header: undefined,
+    pageNumbers: false,
+  },
+};
+
+/**
+ * Templates in `DOCUMENT_TEMPLATES_FILE` are partial: each one is merged over
+ * the built-in template named in its `extends` field (default `"default"`).
+ */
+const templateFileSchema = z.record(
+  z.string().regex(/^[a-z0-9_-]+$/i),
+  templateSchema
+    .omit({ fonts: true, colors: true })
+    .partial()
+    .extend({
+      extends: z.string().optional(),
+      fonts: templateSchema.shape.fonts.partial().optional(),
+      colors: templateSchema.shape.colors.partial().optional(),
+    }),
+);
+
+let templatesPromise: Promise<Map<string, DocumentTemplate>> | null = null;
+
+export function getDocumentTemplates() {
+  if (!templatesPromise) {
+    templatesPromise = loadTemplates();
+  }
+  return templatesPromise;
+}
+
+/**
+ * Resolves a template by name, falling back to `DOCUMENT_DEFAULT_TEMPLATE`
+ * (default `"default"`). Unknown names throw so the model can pick another.
+ */
+export async function getDocumentTemplate(
+  name?: string | null,
+): Promise<DocumentTemplate> {
+  const templates = await getDocumentTemplates();
+  const requested = name || process.env.DOCUMENT_DEFAULT_TEMPLATE || "default";
+  const template = templates.get(requested.toLowerCase());
+
+  if (!template) {
+    throw new Error(
+      `Unknown document template "${requested}". Available templates: ${[
+        ...templates.keys(),
+      ].join(", ")}.`,
+    );
+  }
+
+  return template;
+}
+
+/** Replaces `{title}` and `{date}` in header, footer and subtitle text. */
+export function fillTemplateText(text: string, title: string) {
+  const date = new Date().toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  return text.replace(/\{title\}/g, title).replace(/\{date\}/g, date);
+}
+
+/** Reads the template's logo, converted to PNG unless it is PNG or JPEG. */
+export async function loadTemplateLogo(
+  template: DocumentTemplate,
+): Promise<EmbeddedImage | null> {
+  if (!template.logo) return null;
+
+  try {
+    return await toEmbeddedImage(
+      await readFile(path.resolve(process.cwd(), template.logo)),
+    );
+  } catch (error) {
+    console.warn(
+      `[documents] Could not read logo for template "${template.name}"`,
+      error,
+    );
+    return null;
+  }
+}
+
+async function loadTemplates() {
+  const templates = new Map<string, DocumentTemplate>(
+    Object.entries(BUILT_IN_TEMPLATES).map(([name, template]) => [
+      name,
+      { ...template, name },
+    ]),
+  );
+
+  const file = process.env.DOCUMENT_TEMPLATES_FILE;
+  if (!file) return templates;
+
+  try {
+    const raw = JSON.parse(
+      await readFile(path.resolve(process.cwd(), file), "utf-8"),
+    );
+    const parsed = templateFileSchema.parse(raw);
+
+    for (const [name, { extends: base, ...overrides }] of Object.entries(
+      parsed,
+    )) {
+      const parent = templates.get((base ?? "default").toLowerCase());
+      if (!parent) {
+        console.warn(
+          `[documents] Template "${name}" extends unknown template "${base}"; skipping it.`,
+        );
+        continue;
+      }
+
+      templates.set(name.toLowerCase(), {
+        ...parent,
+        ...overrides,
+        fonts: { ...parent.fonts, ...overrides.fonts },
+        colors: { ...parent.colors, ...overrides.colors },
+        name: name.toLowerCase(),
+      });
+    }
+  } catch (error) {
+    console.error(
+      `[documents] Ignoring DOCUMENT_TEMPLATES_FILE "${file}"; using the built-in templates.`,
+      error,
+    );
+  }
+
+  return templates;
+}
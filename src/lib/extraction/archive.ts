@@ -0,0 +1,76 @@
+/**
+ * DOCX, XLSX and PPTX files are ZIP archives that the extractors inflate in
+ * memory in full. These limits apply to what the central directory declares,
+ * checked before any entry is inflated, so a small upload cannot expand into
+ * gigabytes.
+ */
+const MAX_ARCHIVE_ENTRIES = 5_000;
+const MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+// Fixed part of the end record plus the longest possible archive comment.
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+/**
+ * Throws when the archive's central directory is unreadable, uses ZIP64
+ * (never needed below the upload limits) or declares more entries or
+ * uncompressed bytes than the limits allow.
+ */
+export function assertArchiveWithinLimits(buffer: Buffer) {
+  const end = findEndOfCentralDirectory(buffer);
+  if (end < 0) {
+    throw new Error("The file is not a readable ZIP archive.");
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported.");
+  }
+  if (entryCount > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(
+      `The archive has ${entryCount} entries; the limit is ${MAX_ARCHIVE_ENTRIES}.`,
+    );
+  }
+
+  let offset = directoryOffset;
+  let uncompressedBytes = 0;
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY
+    ) {
+      throw new Error("The archive's central directory is corrupt.");
+    }
+
+    const size = buffer.readUInt32LE(offset + 24);
+    if (size === 0xffffffff) {
+      throw new Error("ZIP64 archives are not supported.");
+    }
+
+    uncompressedBytes += size;
+    if (uncompressedBytes > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(
+        `The archive expands to more than ${MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB.`,
+      );
+    }
+
+    offset +=
+      46 +
+      buffer.readUInt16LE(offset + 28) +
+      buffer.readUInt16LE(offset + 30) +
+      buffer.readUInt16LE(offset + 32);
+  }
+}
+
+function findEndOfCentralDirectory(buffer: Buffer) {
+  const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH);
+
+  for (let offset = buffer.length - 22; offset >= stop; offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
@@ -0,0 +1,15 @@
+import mammoth from "mammoth";
+import { ExtractedDocument } from "@/lib/extraction/types";
+
+export async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const { value } = await mammoth.extractRawText({ buffer });
+  const paragraphs = value
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  return {
+    kind: "docx",
+    sections: [{ label: "Document", text: paragraphs.join("\n\n") }],
+  };
+}
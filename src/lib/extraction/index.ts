@@ -0,0 +1,53 @@
+import { assertArchiveWithinLimits } from "@/lib/extraction/archive";
+import { extractDocx } from "@/lib/extraction/docx";
+import { extractPdf } from "@/lib/extraction/pdf";
+import { extractPptx } from "@/lib/extraction/pptx";
+import { extractXlsx } from "@/lib/extraction/xlsx";
+import {
+  ExtractableKind,
+  ExtractedDocument,
+} from "@/lib/extraction/types";
+
+const EXTRACTORS: Record<
+  ExtractableKind,
+  (buffer: Buffer) => Promise<ExtractedDocument>
+> = {
+  pdf: extractPdf,
+  docx: extractDocx,
+  xlsx: extractXlsx,
+  pptx: extractPptx,
+};
+
+const KIND_LABELS: Record<ExtractableKind, string> = {
+  pdf: "PDF",
+  docx: "Word document",
+  xlsx: "Excel workbook (sheets as CSV)",
+  pptx: "PowerPoint deck",
+};
+
+/**
+ * Office formats are checked against the archive limits first; a rejected
+ * archive fails like any other extraction and is kept without text.
+ */
+export async function extractDocument(
+  kind: ExtractableKind,
+  buffer: Buffer,
+): Promise<ExtractedDocument> {
+  if (kind !== "pdf") assertArchiveWithinLimits(buffer);
+  return EXTRACTORS[kind](buffer);
+}
+
+/**
+ * Renders extracted sections as the plain text given to the model and used
+ * for previews, with one labelled block per page, sheet or slide.
+ */
+export function formatExtractedDocument(document: ExtractedDocument): string {
+  return [
+    `Document Type: ${KIND_LABELS[document.kind]}`,
+    ...document.sections.map(
+      (section) => `\n--- ${section.label} ---\n${section.text || "(no text)"}`,
+    ),
+  ].join("\n");
+}
+
+export type { ExtractableKind, ExtractedDocument } from "@/lib/extraction/types";
@@ -0,0 +1,15 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { ExtractedDocument } from "@/lib/extraction/types";
+
+export async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: false });
+
+  return {
+    kind: "pdf",
+    sections: text.map((pageText, index) => ({
+      label: `Page ${index + 1}`,
+      text: pageText.trim(),
+    })),
+  };
+}
@@ -0,0 +1,46 @@
+import JSZip from "jszip";
+import { ExtractedDocument } from "@/lib/extraction/types";
+
+const SLIDE_PATH = /^ppt\/slides\/slide(\d+)\.xml$/;
+
+export async function extractPptx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slides = Object.keys(zip.files)
+    .map((name) => ({ name, number: Number(name.match(SLIDE_PATH)?.[1]) }))
+    .filter(({ number }) => Number.isFinite(number) && number > 0)
+    .sort((a, b) => a.number - b.number);
+
+  return {
+    kind: "pptx",
+    sections: await Promise.all(
+      slides.map(async ({ name, number }) => ({
+        label: `Slide ${number}`,
+        text: readSlideParagraphs(await zip.file(name)!.async("string")).join("\n"),
+      })),
+    ),
+  };
+}
+
+function readSlideParagraphs(xml: string): string[] {
+  const paragraphs = xml.match(/<a:p[\s>][\s\S]*?<\/a:p>/g) ?? [];
+
+  return paragraphs
+    .map((paragraph) =>
+      decodeXml(
+        (paragraph.match(/<a:t>([\s\S]*?)<\/a:t>/g) ?? [])
+          .map((run) => run.replace(/<\/?a:t>/g, ""))
+          .join(""),
+      ).trim(),
+    )
+    .filter(Boolean);
+}
+
+function decodeXml(text: string) {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
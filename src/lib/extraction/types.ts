@@ -0,0 +1,14 @@
+export type ExtractableKind = "pdf" | "docx" | "xlsx" | "pptx";
+
+export interface ExtractedSection {
+  /**
+   * Human-readable location such as "Page 3", "Sheet: Sales" or "Slide 2".
+   */
+  label: string;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  kind: ExtractableKind;
+  sections: ExtractedSection[];
+}
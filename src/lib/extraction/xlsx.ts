@@ -0,0 +1,34 @@
+import ExcelJS from "exceljs";
+import { formatCsvRow } from "@/lib/csv";
+import { ExtractedDocument } from "@/lib/extraction/types";
+
+export async function extractXlsx(buffer: Buffer): Promise<ExtractedDocument> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs types predate the generic Buffer in newer @types/node.
+  await workbook.xlsx.load(buffer as unknown as Parameters<typeof workbook.xlsx.load>[0]);
+
+  return {
+    kind: "xlsx",
+    sections: workbook.worksheets.map((worksheet) => {
+      const rows: string[] = [];
+
+      for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber += 1) {
+        const row = worksheet.getRow(rowNumber);
+        const values: string[] = [];
+
+        for (let column = 1; column <= worksheet.columnCount; column += 1) {
+          values.push(row.getCell(column).text ?? "");
+        }
+
+        rows.push(formatCsvRow(values));
+      }
+
+      // Drop trailing empty rows that only carry formatting.
+      while (rows.length && /^,*$/.test(rows[rows.length - 1])) {
+        rows.pop();
+      }
+
+      return { label: `Sheet: ${worksheet.name}`, text: rows.join("\n") };
+    }),
+  };
+}
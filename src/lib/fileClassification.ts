@@ -1,3 +1,5 @@
+import { ExtractableKind } from "@/lib/extraction/types";
+
 const TEXT_MIME_PREFIXES = [
   "text/",
   "application/json",
@@ -26,3 +28,39 @@ export function isImage(mimeType: string | null): boolean {
   if (!mimeType) return false;
   return mimeType.startsWith("image/");
 }
+
+const EXTRACTABLE_TYPES: Array<{
+  kind: ExtractableKind;
+  mimeType: string;
+  extension: string;
+}> = [
+  { kind: "pdf", mimeType: "application/pdf", extension: ".pdf" },
+  {
+    kind: "docx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extension: ".docx",
+  },
+  {
+    kind: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: ".xlsx",
+  },
+  {
+    kind: "pptx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    extension: ".pptx",
+  },
+];
+
+export function getExtractableKind(
+  mimeType: string | null,
+  filename: string,
+): ExtractableKind | null {
+  const lowerName = filename.toLowerCase();
+  const match = EXTRACTABLE_TYPES.find(
+    (type) => type.mimeType === mimeType || lowerName.endsWith(type.extension),
+  );
+  return match?.kind ?? null;
+}
@@ -1,21 +1,14 @@
-import { mkdir, writeFile } from "node:fs/promises";
 import path from "node:path";
 
-export const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads");
-export const GENERATED_DIR = path.join(process.cwd(), "generated");
-
-export async function ensureDirectories() {
-  await mkdir(UPLOAD_DIR, { recursive: true });
-  await mkdir(GENERATED_DIR, { recursive: true });
-}
-
-export async function saveBuffer(
-  buffer: Buffer,
-  destinationDir: string,
-  filename: string,
-) {
-  await mkdir(destinationDir, { recursive: true });
-  const fullPath = path.join(destinationDir, filename);
-  await writeFile(fullPath, buffer);
-  return fullPath;
-}
+// Used by the local blob store; set BLOB_STORE=azure to keep files off disk.
+// Uploads live outside `public/` so they are only reachable through signed
+// links.
+export const UPLOAD_DIR =
+  process.env.UPLOAD_DIR ?? path.join(process.cwd(), "data", "uploads");
+export const GENERATED_DIR =
+  process.env.GENERATED_DIR ?? path.join(process.cwd(), "generated");
+export const CONVERSATION_DIR =
+  process.env.CONVERSATION_DIR ??
+  path.join(process.cwd(), "data", "conversations");
+export const ARTIFACT_DIR =
+  process.env.ARTIFACT_DIR ?? path.join(process.cwd(), "data", "artifacts");
@@ -0,0 +1,101 @@
+import convertHeic from "heic-convert";
+import sharp from "sharp";
+import { readPositiveInt } from "@/lib/env";
+
+export interface ImagePipelineOptions {
+  maxEdge: number;
+  thumbnailEdge: number;
+  jpegQuality: number;
+}
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+  thumbnail: Buffer;
+}
+
+export const THUMBNAIL_MIME_TYPE = "image/jpeg";
+
+// HEIC/HEIF decoding is not in the prebuilt sharp binaries, and vision input
+// only accepts PNG, JPEG, WEBP and non-animated GIF.
+const HEIC_TYPES = ["image/heic", "image/heif"];
+
+export function getImagePipelineOptions(): ImagePipelineOptions {
+  return {
+    maxEdge: readPositiveInt(process.env.IMAGE_MAX_EDGE, 2048),
+    thumbnailEdge: readPositiveInt(process.env.IMAGE_THUMBNAIL_EDGE, 320),
+    jpegQuality: Math.min(
+      readPositiveInt(process.env.IMAGE_JPEG_QUALITY, 85),
+      100,
+    ),
+  };
+}
+
+/**
+ * MIME type the pipeline produces for a given input: PNG and WEBP keep their
+ * format, GIF becomes PNG (first frame) and everything else becomes JPEG.
+ */
+export function processedImageType(mimeType: string) {
+  if (mimeType === "image/png" || mimeType === "image/gif") return "image/png";
+  if (mimeType === "image/webp") return "image/webp";
+  return "image/jpeg";
+}
+
+/**
+ * Auto-orients from EXIF, drops all metadata (sharp only copies it when asked),
+ * converts to a vision-friendly format, downscales to `maxEdge` and renders a
+ * JPEG thumbnail.
+ */
+export async function processImage(
+  input: Buffer,
+  mimeType: string,
+  options: ImagePipelineOptions = getImagePipelineOptions(),
+): Promise<ProcessedImage> {
+  const decodable = HEIC_TYPES.includes(mimeType)
+    ? Buffer.from(
+        await convertHeic({ buffer: input, format: "JPEG", quality: 1 }),
+      )
+    : input;
+  const outputType = processedImageType(mimeType);
+
+  const pipeline = sharp(decodable, { animated: false })
+    .rotate()
+    .resize({
+      width: options.maxEdge,
+      height: options.maxEdge,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+
+  const { data, info } = await (
+    outputType === "image/png"
+      ? pipeline.png()
+      : outputType === "image/webp"
+        ? pipeline.webp({ quality: options.jpegQuality })
+        : pipeline.flatten({ background: "#ffffff" }).jpeg({
+            quality: options.jpegQuality,
+            mozjpeg: true,
+          })
+  ).toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await sharp(data)
+    .resize({
+      width: options.thumbnailEdge,
+      height: options.thumbnailEdge,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+
+  return {
+    buffer: data,
+    mimeType: outputType,
+    width: info.width,
+    height: info.height,
+    thumbnail,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Runs tasks for the same key one after another, e.g. read-modify-write
+ * cycles on one stored document. Tasks for different keys run concurrently.
+ * The lock only spans this process.
+ */
+export function createKeyedMutex() {
+  const pending = new Map<string, Promise<unknown>>();
+
+  return function exclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const run = (pending.get(key) ?? Promise.resolve()).then(task, task);
+    const settled = run.catch(() => undefined);
+    pending.set(key, settled);
+    settled.then(() => {
+      if (pending.get(key) === settled) pending.delete(key);
+    });
+    return run;
+  };
+}
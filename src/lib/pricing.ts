@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { TokenUsage } from "@/lib/types";
+
+const pricingSchema = z.record(
+  z.string(),
+  z.object({
+    inputPerMillion: z.number().nonnegative(),
+    cachedInputPerMillion: z.number().nonnegative().optional(),
+    outputPerMillion: z.number().nonnegative(),
+  }),
+);
+
+export type DeploymentPricing = z.infer<typeof pricingSchema>[string];
+
+// USD per million tokens, keyed by deployment name. Override or extend with
+// the AZURE_OPENAI_PRICING environment variable (same JSON shape).
+const DEFAULT_PRICING: Record<string, DeploymentPricing> = {
+  "gpt-5": { inputPerMillion: 1.25, cachedInputPerMillion: 0.125, outputPerMillion: 10 },
+  "gpt-5-mini": { inputPerMillion: 0.25, cachedInputPerMillion: 0.025, outputPerMillion: 2 },
+  "gpt-4.1": { inputPerMillion: 2, cachedInputPerMillion: 0.5, outputPerMillion: 8 },
+};
+
+let pricingTable: Record<string, DeploymentPricing> | null = null;
+
+export function getPricingTable(): Record<string, DeploymentPricing> {
+  if (pricingTable) return pricingTable;
+
+  pricingTable = { ...DEFAULT_PRICING };
+  const override = process.env.AZURE_OPENAI_PRICING;
+
+  if (override) {
+    try {
+      Object.assign(pricingTable, pricingSchema.parse(JSON.parse(override)));
+    } catch (error) {
+      console.warn(
+        "[pricing] Ignoring invalid AZURE_OPENAI_PRICING value.",
+        error,
+      );
+    }
+  }
+
+  return pricingTable;
+}
+
+/**
+ * Cached input tokens are billed at the cached rate when one is configured.
+ * Reasoning tokens are already part of `outputTokens`.
+ */
+export function estimateCostUsd(
+  deployment: string,
+  usage: TokenUsage,
+): number | undefined {
+  const pricing = getPricingTable()[deployment];
+  if (!pricing) return undefined;
+
+  const cachedRate = pricing.cachedInputPerMillion ?? pricing.inputPerMillion;
+  const uncachedInput = usage.inputTokens - usage.cachedInputTokens;
+
+  return (
+    (uncachedInput * pricing.inputPerMillion +
+      usage.cachedInputTokens * cachedRate +
+      usage.outputTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
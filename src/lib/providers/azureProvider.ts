@@ -0,0 +1,14 @@
+import type OpenAI from "openai";
+import { ResponsesProvider } from "@/lib/providers/types";
+
+export function createAzureProvider(client: OpenAI): ResponsesProvider {
+  return {
+    name: "azure",
+    create(params, options) {
+      return client.responses.create(params, options);
+    },
+    stream(params, options) {
+      return client.responses.create({ ...params, stream: true }, options);
+    },
+  };
+}
@@ -0,0 +1,225 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { APIError } from "openai";
+import type {
+  Response as OpenAIResponse,
+  ResponseCreateParamsNonStreaming,
+  ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+import { streamResponseEvents } from "@/lib/providers/streamEvents";
+import { ResponsesProvider } from "@/lib/providers/types";
+
+export interface FixtureInteraction {
+  request: ResponseCreateParamsNonStreaming;
+  stream: boolean;
+  response?: OpenAIResponse;
+  /**
+   * Raw stream events, kept so replays reproduce the exact delta sequence.
+   */
+  events?: ResponseStreamEvent[];
+  error?: {
+    status?: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+    message: string;
+  };
+}
+
+export interface ResponsesFixture {
+  version: 1;
+  recordedAt: string;
+  interactions: FixtureInteraction[];
+}
+
+/**
+ * Wraps a provider and appends every request/response pair to `fixturePath`.
+ * The file is rewritten after each call so a crashed run still leaves a
+ * usable fixture.
+ */
+export function createRecordingProvider(
+  inner: ResponsesProvider,
+  fixturePath: string,
+): ResponsesProvider {
+  const fixture: ResponsesFixture = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    interactions: [],
+  };
+
+  const save = (interaction: FixtureInteraction) => {
+    fixture.interactions.push(interaction);
+    mkdirSync(path.dirname(fixturePath), { recursive: true });
+    writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+  };
+
+  return {
+    name: `record(${inner.name})`,
+    async create(params, options) {
+      try {
+        const response = await inner.create(params, options);
+        save({ request: params, stream: false, response });
+        return response;
+      } catch (error) {
+        save({ request: params, stream: false, error: serializeError(error) });
+        throw error;
+      }
+    },
+    async stream(params, options) {
+      let source: AsyncIterable<ResponseStreamEvent>;
+
+      try {
+        source = await inner.stream(params, options);
+      } catch (error) {
+        save({ request: params, stream: true, error: serializeError(error) });
+        throw error;
+      }
+
+      return (async function* () {
+        const events: ResponseStreamEvent[] = [];
+        let response: OpenAIResponse | undefined;
+
+        try {
+          for await (const event of source) {
+            events.push(event);
+            if (
+              event.type === "response.completed" ||
+              event.type === "response.incomplete" ||
+              event.type === "response.failed"
+            ) {
+              response = event.response;
+            }
+            yield event;
+          }
+          save({ request: params, stream: true, response, events });
+        } catch (error) {
+          save({
+            request: params,
+            stream: true,
+            response,
+            events,
+            error: serializeError(error),
+          });
+          throw error;
+        }
+      })();
+    },
+  };
+}
+
+/**
+ * Serves the interactions of a recorded fixture in order. Requests are not
+ * matched exactly (tool outputs contain fresh ids on every run); a warning is
+ * logged when the shape of a request differs from the recording.
+ */
+export function createReplayProvider(fixturePath: string): ResponsesProvider {
+  const fixture = JSON.parse(readFileSync(fixturePath, "utf-8")) as ResponsesFixture;
+  let cursor = 0;
+
+  const next = (params: ResponseCreateParamsNonStreaming) => {
+    const interaction = fixture.interactions[cursor];
+
+    if (!interaction) {
+      throw new Error(
+        `Replay fixture ${fixturePath} is exhausted after ${fixture.interactions.length} interactions.`,
+      );
+    }
+
+    cursor += 1;
+    warnOnShapeMismatch(cursor, interaction.request, params);
+
+    if (interaction.error && !interaction.events?.length) {
+      throw deserializeError(interaction.error);
+    }
+
+    return interaction;
+  };
+
+  return {
+    name: "replay",
+    async create(params) {
+      const interaction = next(params);
+
+      if (interaction.error || !interaction.response) {
+        throw deserializeError(
+          interaction.error ?? { message: "Recorded interaction has no response." },
+        );
+      }
+
+      return interaction.response;
+    },
+    async stream(params, options) {
+      const interaction = next(params);
+
+      if (interaction.events?.length) {
+        return (async function* () {
+          yield* interaction.events!;
+          if (interaction.error) throw deserializeError(interaction.error);
+        })();
+      }
+
+      if (!interaction.response) {
+        throw deserializeError({ message: "Recorded interaction has no response." });
+      }
+
+      return streamResponseEvents(interaction.response, {
+        signal: options?.signal,
+      });
+    },
+  };
+}
+
+function serializeError(error: unknown): FixtureInteraction["error"] {
+  if (error instanceof APIError) {
+    return {
+      status: error.status,
+      body: error.error,
+      headers: error.headers
+        ? Object.fromEntries(error.headers.entries())
+        : undefined,
+      message: error.message,
+    };
+  }
+
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+function deserializeError(error: NonNullable<FixtureInteraction["error"]>) {
+  if (error.status) {
+    return APIError.generate(
+      error.status,
+      { error: error.body },
+      error.body ? undefined : error.message,
+      new Headers(error.headers),
+    );
+  }
+
+  return new Error(error.message);
+}
+
+function warnOnShapeMismatch(
+  index: number,
+  recorded: ResponseCreateParamsNonStreaming,
+  actual: ResponseCreateParamsNonStreaming,
+) {
+  const shape = (params: ResponseCreateParamsNonStreaming) =>
+    JSON.stringify({
+      model: params.model,
+      chained: Boolean(params.previous_response_id),
+      input: Array.isArray(params.input)
+        ? params.input.map((item) =>
+            "type" in item && item.type ? item.type : "role" in item ? item.role : "?",
+          )
+        : typeof params.input,
+      tools: (params.tools ?? []).map((tool) =>
+        tool.type === "function" ? tool.name : tool.type,
+      ),
+    });
+
+  if (shape(recorded) !== shape(actual)) {
+    console.warn(
+      `[replay] Request ${index} differs from the recording: expected ${shape(
+        recorded,
+      )}, got ${shape(actual)}`,
+    );
+  }
+}
@@ -0,0 +1,402 @@
+import { APIError, APIUserAbortError } from "openai";
+import type {
+  Response as OpenAIResponse,
+  ResponseCreateParamsNonStreaming,
+  ResponseFunctionToolCall,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseOutputMessage,
+} from "openai/resources/responses/responses";
+import { readNonNegativeInt } from "@/lib/env";
+import { streamResponseEvents } from "@/lib/providers/streamEvents";
+import { ResponsesProvider } from "@/lib/providers/types";
+
+interface StoredResponse {
+  output: ResponseOutputItem[];
+  userTurns: number;
+}
+
+interface MockState {
+  responses: Map<string, StoredResponse>;
+  counter: number;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Deterministic stand-in for the Responses API. It answers with text, emits
+ * `create_artifact` / `update_artifact` / `create_document` /
+ * `search_attachments` calls when the latest user message asks for one, chains turns through
+ * `previous_response_id` and reports usage estimated from character counts. Put `[mock:rate_limit]`,
+ * `[mock:server_error]`, `[mock:content_filter]` or `[mock:context_length]`
+ * in a prompt to exercise error handling.
+ */
+export function createMockProvider(): ResponsesProvider {
+  const state: MockState = { responses: new Map(), counter: 0 };
+  const delayMs = readNonNegativeInt(process.env.MOCK_PROVIDER_DELAY_MS, 0);
+
+  return {
+    name: "mock",
+    async create(params, options) {
+      throwIfAborted(options?.signal);
+      return respond(state, params);
+    },
+    async stream(params, options) {
+      throwIfAborted(options?.signal);
+      const response = respond(state, params);
+      return streamResponseEvents(response, {
+        delayMs,
+        signal: options?.signal,
+      });
+    },
+  };
+}
+
+function respond(
+  state: MockState,
+  params: ResponseCreateParamsNonStreaming,
+): OpenAIResponse {
+  const previous = params.previous_response_id
+    ? state.responses.get(params.previous_response_id)
+    : undefined;
+
+  if (params.previous_response_id && !previous) {
+    throw APIError.generate(
+      404,
+      {
+        error: {
+          code: "previous_response_not_found",
+          message: `Previous response with id '${params.previous_response_id}' not found.`,
+        },
+      },
+      undefined,
+      new Headers(),
+    );
+  }
+
+  const input: ResponseInputItem[] =
+    typeof params.input === "string"
+      ? [{ role: "user", content: params.input }]
+      : (params.input ?? []);
+  const userMessages = input.filter(
+    (item) => "role" in item && item.role === "user",
+  ) as Array<{ content: unknown }>;
+  const latestUser = userMessages.at(-1);
+  const userText = latestUser ? readText(latestUser.content) : "";
+
+  throwTriggeredError(userText);
+
+  const nextId = () => {
+    state.counter += 1;
+    return String(state.counter).padStart(4, "0");
+  };
+
+  const toolOutputs = input.filter(
+    (item): item is ResponseInputItem.FunctionCallOutput =>
+      item.type === "function_call_output",
+  );
+  const availableTools = (params.tools ?? []).flatMap((tool) =>
+    tool.type === "function" ? [tool.name] : [],
+  );
+  const userTurns = (previous?.userTurns ?? 0) + userMessages.length;
+
+  let output: ResponseOutputItem[];
+
+  if (toolOutputs.length) {
+    output = [textMessage(nextId(), describeToolOutputs(toolOutputs, previous))];
+  } else {
+    const call = planToolCall(userText, availableTools);
+    output = call
+      ? [
+          {
+            type: "function_call",
+            id: `fc_mock_${nextId()}`,
+            call_id: `call_mock_${nextId()}`,
+            name: call.name,
+            arguments: JSON.stringify(call.args),
+            status: "completed",
+          },
+        ]
+      : [
+          textMessage(
+            nextId(),
+            describeTurn(userText, latestUser, userTurns, params.model),
+          ),
+        ];
+  }
+
+  const id = `resp_mock_${nextId()}`;
+  state.responses.set(id, { output, userTurns });
+
+  const inputTokens = estimateTokens(JSON.stringify(input));
+  const outputTokens = estimateTokens(JSON.stringify(output));
+
+  return {
+    id,
+    object: "response",
+    created_at: 0,
+    model: params.model ?? "mock",
+    status: "completed",
+    output,
+    output_text: output
+      .flatMap((item) => (item.type === "message" ? item.content : []))
+      .map((content) => (content.type === "output_text" ? content.text : ""))
+      .join(""),
+    error: null,
+    incomplete_details: null,
+    instructions: null,
+    metadata: null,
+    parallel_tool_calls: true,
+    previous_response_id: params.previous_response_id ?? null,
+    temperature: params.temperature ?? null,
+    tool_choice: "auto",
+    tools: params.tools ?? [],
+    top_p: null,
+    usage: {
+      input_tokens: inputTokens,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens: outputTokens,
+      output_tokens_details: { reasoning_tokens: 0 },
+      total_tokens: inputTokens + outputTokens,
+    },
+  };
+}
+
+function planToolCall(
+  text: string,
+  availableTools: string[],
+): { name: string; args: Record<string, unknown> } | null {
+  const artifactId = text.match(
+    /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/i,
+  )?.[0];
+
+  if (
+    availableTools.includes("update_artifact") &&
+    artifactId &&
+    /\b(update|change|edit|make)\b/i.test(text)
+  ) {
+    return {
+      name: "update_artifact",
+      args: {
+        artifactId,
+        html: null,
+        css: null,
+        js: null,
+        edits: [
+          {
+            target: "css",
+            find: "padding: 1rem;",
+            replace: "padding: 1rem; color: #2563eb;",
+          },
+        ],
+        title: null,
+        description: null,
+        changeSummary: "Text colour changed to blue.",
+      },
+    };
+  }
+
+  if (
+    availableTools.includes("create_artifact") &&
+    /\b(artifact|chart|demo|visuali[sz]e|widget)\b/i.test(text)
+  ) {
+    return {
+      name: "create_artifact",
+      args: {
+        title: "Mock artifact",
+        description: "Generated by the offline mock provider.",
+        html: `<div class="mock-artifact"><h1>Mock artifact</h1><p>${escapeHtml(
+          text,
+        )}</p><button id="count">Clicked 0 times</button></div>`,
+        css: ".mock-artifact { font-family: sans-serif; padding: 1rem; }",
+        js: "let n = 0; const b = document.getElementById('count'); b.addEventListener('click', () => { n += 1; b.textContent = `Clicked ${n} times`; });",
+      },
+    };
+  }
+
+  if (
+    availableTools.includes("search_attachments") &&
+    /\b(search|find|look up)\b/i.test(text)
+  ) {
+    return {
+      name: "search_attachments",
+      args: { query: text, attachmentIds: null, topK: null },
+    };
+  }
+
+  const documentType = text.match(
+    /\b(pdf|docx|xlsx|spreadsheet|pptx|slides|deck|html|json|csv|md|markdown|txt|document|report)\b/i,
+  )?.[1];
+
+  if (availableTools.includes("create_document") && documentType) {
+    const type = MOCK_DOCUMENT_TYPES[documentType.toLowerCase()] ?? "md";
+
+    return {
+      name: "create_document",
+      args: {
+        filename: "mock-report",
+        type,
+        content: mockDocumentContent(type, text),
+        template: /\breport\b/i.test(text) ? "report" : null,
+        summary: "Document generated by the offline mock provider.",
+      },
+    };
+  }
+
+  return null;
+}
+
+const MOCK_DOCUMENT_TYPES: Record<string, string> = {
+  pdf: "pdf",
+  docx: "docx",
+  xlsx: "xlsx",
+  spreadsheet: "xlsx",
+  pptx: "pptx",
+  slides: "pptx",
+  deck: "pptx",
+  html: "html",
+  json: "json",
+  csv: "csv",
+  txt: "txt",
+};
+
+function mockDocumentContent(type: string, text: string) {
+  switch (type) {
+    case "csv":
+      return "item,value\nprompt length," + text.length;
+    case "xlsx":
+      return JSON.stringify({
+        sheets: [
+          {
+            name: "Summary",
+            columns: ["Item", "Value"],
+            rows: [
+              ["Prompt length", text.length],
+              ["Generated", { type: "date", value: "2024-01-01" }],
+            ],
+          },
+        ],
+      });
+    case "json":
+      return JSON.stringify({ prompt: text, length: text.length });
+    case "pptx":
+      return `# Mock deck\n\nGenerated offline\n\n## Prompt\n\n- ${text}\n\n> Speaker notes from the mock provider.`;
+    default:
+      return `# Mock report\n\n${text}`;
+  }
+}
+
+function describeTurn(
+  text: string,
+  message: { content: unknown } | undefined,
+  userTurns: number,
+  model: string | undefined,
+) {
+  const attachmentCount = Array.isArray(message?.content)
+    ? Math.max(0, message.content.length - 1)
+    : 0;
+
+  return [
+    `Mock reply #${userTurns} from ${model ?? "mock"}.`,
+    text ? `You said: "${text}".` : "No user text was provided.",
+    attachmentCount
+      ? `I received ${attachmentCount} attachment${attachmentCount === 1 ? "" : "s"}.`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function describeToolOutputs(
+  outputs: ResponseInputItem.FunctionCallOutput[],
+  previous: StoredResponse | undefined,
+) {
+  const calls = new Map(
+    (previous?.output ?? [])
+      .filter((item): item is ResponseFunctionToolCall => item.type === "function_call")
+      .map((item) => [item.call_id, item.name]),
+  );
+
+  const lines = outputs.map((output) => {
+    const name = calls.get(output.call_id) ?? "unknown tool";
+    let success = false;
+    try {
+      success = Boolean(
+        JSON.parse(typeof output.output === "string" ? output.output : "{}").success,
+      );
+    } catch {
+      success = false;
+    }
+    return `- ${name}: ${success ? "succeeded" : "failed"}`;
+  });
+
+  return [`Mock provider finished ${outputs.length} tool call(s):`, ...lines].join("\n");
+}
+
+function textMessage(id: string, text: string): ResponseOutputMessage {
+  return {
+    type: "message",
+    id: `msg_mock_${id}`,
+    role: "assistant",
+    status: "completed",
+    content: [{ type: "output_text", text, annotations: [] }],
+  };
+}
+
+function throwTriggeredError(text: string) {
+  const trigger = text.match(/\[mock:([a-z_]+)\]/)?.[1];
+  if (!trigger) return;
+
+  const failures: Record<string, [number, string, string, Record<string, string>?]> = {
+    rate_limit: [429, "rate_limit_exceeded", "Mock rate limit.", { "retry-after": "2" }],
+    server_error: [500, "server_error", "Mock server error."],
+    content_filter: [
+      400,
+      "content_filter",
+      "The response was filtered due to the prompt triggering the mock content management policy.",
+    ],
+    context_length: [
+      400,
+      "context_length_exceeded",
+      "This model's maximum context length was exceeded (mock).",
+    ],
+  };
+
+  const failure = failures[trigger];
+  if (!failure) return;
+
+  const [status, code, message, headers] = failure;
+  throw APIError.generate(
+    status,
+    { error: { code, message } },
+    undefined,
+    new Headers(headers),
+  );
+}
+
+function readText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  const first = content.find(
+    (part): part is { type: "input_text"; text: string } =>
+      part?.type === "input_text",
+  );
+  return first?.text ?? "";
+}
+
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new APIUserAbortError();
+  }
+}
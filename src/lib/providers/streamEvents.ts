@@ -0,0 +1,69 @@
+import { APIUserAbortError } from "openai";
+import type {
+  Response as OpenAIResponse,
+  ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+
+/**
+ * Replays a completed response as the stream events the chat route consumes:
+ * output items, word-sized text deltas and a final `response.completed`.
+ */
+export async function* streamResponseEvents(
+  response: OpenAIResponse,
+  { delayMs = 0, signal }: { delayMs?: number; signal?: AbortSignal } = {},
+): AsyncGenerator<ResponseStreamEvent> {
+  let sequence = 0;
+  const next = () => sequence++;
+
+  yield {
+    type: "response.created",
+    response: { ...response, status: "in_progress", output: [] },
+    sequence_number: next(),
+  };
+
+  for (const [outputIndex, item] of response.output.entries()) {
+    yield {
+      type: "response.output_item.added",
+      item,
+      output_index: outputIndex,
+      sequence_number: next(),
+    };
+
+    if (item.type === "message") {
+      for (const [contentIndex, content] of item.content.entries()) {
+        if (content.type !== "output_text") continue;
+
+        for (const delta of content.text.match(/\S+\s*/g) ?? []) {
+          if (delayMs) await wait(delayMs);
+          if (signal?.aborted) throw new APIUserAbortError();
+          yield {
+            type: "response.output_text.delta",
+            delta,
+            item_id: item.id,
+            output_index: outputIndex,
+            content_index: contentIndex,
+            logprobs: [],
+            sequence_number: next(),
+          };
+        }
+      }
+    }
+
+    yield {
+      type: "response.output_item.done",
+      item,
+      output_index: outputIndex,
+      sequence_number: next(),
+    };
+  }
+
+  yield {
+    type: "response.completed",
+    response,
+    sequence_number: next(),
+  };
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
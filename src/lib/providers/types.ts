@@ -0,0 +1,26 @@
+import type {
+  Response as OpenAIResponse,
+  ResponseCreateParamsNonStreaming,
+  ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+
+export interface ProviderRequestOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * The subset of the Responses API the chat route depends on. Implementations
+ * must throw `openai` `APIError`s for HTTP-style failures so that error
+ * classification and retries behave the same for every provider.
+ */
+export interface ResponsesProvider {
+  readonly name: string;
+  create(
+    params: ResponseCreateParamsNonStreaming,
+    options?: ProviderRequestOptions,
+  ): Promise<OpenAIResponse>;
+  stream(
+    params: ResponseCreateParamsNonStreaming,
+    options?: ProviderRequestOptions,
+  ): Promise<AsyncIterable<ResponseStreamEvent>>;
+}
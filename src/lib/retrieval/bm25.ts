@@ -0,0 +1,84 @@
+export interface Bm25Index {
+  /**
+   * Term counts per chunk, in chunk order.
+   */
+  termFrequencies: Array<Record<string, number>>;
+  documentLengths: number[];
+  documentFrequencies: Record<string, number>;
+  averageLength: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by for from has have in is it its of on or that the this to was were will with".split(
+    " ",
+  ),
+);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => !STOPWORDS.has(term),
+  );
+}
+
+export function buildBm25Index(documents: string[]): Bm25Index {
+  const termFrequencies: Bm25Index["termFrequencies"] = [];
+  const documentLengths: number[] = [];
+  const documentFrequencies: Record<string, number> = {};
+
+  for (const document of documents) {
+    const terms = tokenize(document);
+    const frequencies: Record<string, number> = {};
+
+    for (const term of terms) {
+      frequencies[term] = (frequencies[term] ?? 0) + 1;
+    }
+    for (const term of Object.keys(frequencies)) {
+      documentFrequencies[term] = (documentFrequencies[term] ?? 0) + 1;
+    }
+
+    termFrequencies.push(frequencies);
+    documentLengths.push(terms.length);
+  }
+
+  const totalLength = documentLengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    termFrequencies,
+    documentLengths,
+    documentFrequencies,
+    averageLength: documents.length ? totalLength / documents.length : 0,
+  };
+}
+
+/**
+ * Okapi BM25 score of every indexed chunk against the query.
+ */
+export function scoreBm25(index: Bm25Index, query: string): number[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const documentCount = index.documentLengths.length;
+
+  return index.termFrequencies.map((frequencies, position) => {
+    const lengthRatio =
+      index.averageLength > 0
+        ? index.documentLengths[position] / index.averageLength
+        : 1;
+
+    return queryTerms.reduce((score, term) => {
+      const frequency = frequencies[term];
+      if (!frequency) return score;
+
+      const documentFrequency = index.documentFrequencies[term] ?? 0;
+      const idf = Math.log(
+        1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5),
+      );
+      return (
+        score +
+        (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + B * lengthRatio))
+      );
+    }, 0);
+  });
+}
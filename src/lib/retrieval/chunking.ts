@@ -0,0 +1,52 @@
+import { estimateTokens } from "@/lib/contextBudget";
+
+export interface TextChunk {
+  index: number;
+  /**
+   * 1-based, inclusive line range in the indexed text.
+   */
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/**
+ * Splits text into line-aligned chunks of roughly `maxTokens`, repeating the
+ * last `overlapLines` lines of each chunk at the start of the next so a
+ * passage cut at a boundary is still found whole.
+ */
+export function chunkText(
+  text: string,
+  maxTokens: number,
+  overlapLines = 2,
+): TextChunk[] {
+  const lines = text.split(/\r?\n/);
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = start;
+    let tokens = 0;
+
+    // Always take at least one line, even if it alone exceeds the budget.
+    while (end < lines.length && (end === start || tokens < maxTokens)) {
+      tokens += estimateTokens(lines[end]) + 1;
+      end += 1;
+    }
+
+    const chunkLines = lines.slice(start, end);
+    if (chunkLines.some((line) => line.trim())) {
+      chunks.push({
+        index: chunks.length,
+        startLine: start + 1,
+        endLine: end,
+        text: chunkLines.join("\n"),
+      });
+    }
+
+    if (end >= lines.length) break;
+    start = Math.max(end - overlapLines, start + 1);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,43 @@
+const DIMENSIONS = 256;
+
+/**
+ * Dependency-free local embedding: character trigrams of each word hashed into
+ * a fixed-size, L2-normalised vector. It adds typo and inflection tolerance
+ * on top of BM25's exact term matching without calling a model.
+ */
+export function embedText(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const padded = ` ${word} `;
+    for (let offset = 0; offset + 3 <= padded.length; offset += 1) {
+      const hash = fnv1a(padded.slice(offset, offset + 3));
+      // The top bit picks the sign so colliding trigrams tend to cancel out.
+      vector[hash % DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+  }
+
+  const norm = Math.hypot(...vector);
+  // Rounded so stored indexes stay compact.
+  return norm ? vector.map((value) => Math.round((value / norm) * 1e4) / 1e4) : vector;
+}
+
+/**
+ * Vectors from `embedText` are normalised, so their dot product is the cosine.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index] * b[index];
+  }
+  return dot;
+}
+
+function fnv1a(text: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,159 @@
+import { estimateTokens } from "@/lib/contextBudget";
+import { readPositiveInt } from "@/lib/env";
+import { Bm25Index, buildBm25Index, scoreBm25 } from "@/lib/retrieval/bm25";
+import { chunkText, TextChunk } from "@/lib/retrieval/chunking";
+import { cosineSimilarity, embedText } from "@/lib/retrieval/embeddings";
+import { getBlobStore } from "@/lib/storage";
+import { UploadedFileMetadata } from "@/lib/types";
+
+export interface RetrievalOptions {
+  /**
+   * Attachments with more estimated tokens than this are indexed for search
+   * instead of being inlined.
+   */
+  indexThresholdTokens: number;
+  chunkTokens: number;
+  /**
+   * Tokens of an indexed attachment still inlined so the model knows what the
+   * file is about.
+   */
+  previewTokens: number;
+  embeddings: boolean;
+}
+
+export interface AttachmentIndex {
+  version: 1;
+  chunks: TextChunk[];
+  bm25: Bm25Index;
+  embeddings?: number[][];
+}
+
+export interface SearchPassage {
+  attachmentId: string;
+  file: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  text: string;
+}
+
+// Reciprocal rank fusion constant from the original RRF paper.
+const RRF_K = 60;
+
+export function getRetrievalOptions(): RetrievalOptions {
+  return {
+    indexThresholdTokens: readPositiveInt(
+      process.env.RETRIEVAL_INDEX_THRESHOLD_TOKENS,
+      8_000,
+    ),
+    chunkTokens: readPositiveInt(process.env.RETRIEVAL_CHUNK_TOKENS, 300),
+    previewTokens: readPositiveInt(process.env.RETRIEVAL_PREVIEW_TOKENS, 1_000),
+    embeddings: process.env.RETRIEVAL_EMBEDDINGS === "local",
+  };
+}
+
+export function shouldIndex(text: string, options = getRetrievalOptions()) {
+  return estimateTokens(text) > options.indexThresholdTokens;
+}
+
+export function buildAttachmentIndex(
+  text: string,
+  options = getRetrievalOptions(),
+): AttachmentIndex {
+  const chunks = chunkText(text, options.chunkTokens);
+
+  return {
+    version: 1,
+    chunks,
+    bm25: buildBm25Index(chunks.map((chunk) => chunk.text)),
+    embeddings: options.embeddings
+      ? chunks.map((chunk) => embedText(chunk.text))
+      : undefined,
+  };
+}
+
+export function searchIndexFilenameFor(storedFilename: string) {
+  return `${storedFilename}.index.json`;
+}
+
+export async function saveAttachmentIndex(
+  filename: string,
+  index: AttachmentIndex,
+) {
+  await getBlobStore().put("uploads", filename, Buffer.from(JSON.stringify(index)), {
+    contentType: "application/json",
+  });
+}
+
+export async function loadAttachmentIndex(
+  filename: string,
+): Promise<AttachmentIndex | null> {
+  try {
+    const raw = await getBlobStore().get("uploads", filename);
+    if (!raw) {
+      console.warn(`[retrieval] Index ${filename} does not exist`);
+      return null;
+    }
+    return JSON.parse(raw.toString("utf-8")) as AttachmentIndex;
+  } catch (error) {
+    console.warn(`[retrieval] Could not load index ${filename}`, error);
+    return null;
+  }
+}
+
+/**
+ * Ranks chunks from every given attachment against the query. BM25 decides
+ * the order on its own; when an index carries embeddings, the BM25 and vector
+ * rankings are merged with reciprocal rank fusion.
+ */
+export async function searchAttachments(
+  attachments: UploadedFileMetadata[],
+  query: string,
+  topK: number,
+): Promise<SearchPassage[]> {
+  const queryVector = embedText(query);
+  const candidates: SearchPassage[] = [];
+
+  for (const attachment of attachments) {
+    if (!attachment.searchIndexFilename) continue;
+    const index = await loadAttachmentIndex(attachment.searchIndexFilename);
+    if (!index) continue;
+
+    const bm25Scores = scoreBm25(index.bm25, query);
+    const scores = index.embeddings
+      ? fuseRankings([
+          bm25Scores,
+          index.embeddings.map((vector) => cosineSimilarity(vector, queryVector)),
+        ])
+      : bm25Scores;
+
+    index.chunks.forEach((chunk, position) => {
+      if (!index.embeddings && bm25Scores[position] <= 0) return;
+      candidates.push({
+        attachmentId: attachment.id,
+        file: attachment.originalName,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        score: Math.round(scores[position] * 1e4) / 1e4,
+        text: chunk.text,
+      });
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+function fuseRankings(scoreLists: number[][]): number[] {
+  const fused = new Array<number>(scoreLists[0].length).fill(0);
+
+  for (const scores of scoreLists) {
+    scores
+      .map((score, position) => ({ score, position }))
+      .sort((a, b) => b.score - a.score)
+      .forEach(({ position }, rank) => {
+        fused[position] += 1 / (RRF_K + rank + 1);
+      });
+  }
+
+  return fused;
+}
@@ -0,0 +1,142 @@
+import {
+  BlobServiceClient,
+  ContainerClient,
+  RestError,
+} from "@azure/storage-blob";
+import { Readable } from "node:stream";
+import {
+  BlobContainer,
+  BlobStore,
+  isValidBlobKey,
+} from "@/lib/storage/blobStore";
+
+export interface AzureBlobStoreOptions {
+  /**
+   * Storage account connection string; `UseDevelopmentStorage=true` targets a
+   * local Azurite emulator.
+   */
+  connectionString: string;
+  containerNames: Record<BlobContainer, string>;
+}
+
+/**
+ * Stores blobs as block blobs in one Azure Storage container per logical
+ * container. Containers are created on first use.
+ */
+export function createAzureBlobStore({
+  connectionString,
+  containerNames,
+}: AzureBlobStoreOptions): BlobStore {
+  const service = BlobServiceClient.fromConnectionString(connectionString);
+  const ready = new Map<BlobContainer, Promise<ContainerClient>>();
+
+  const containerClient = (container: BlobContainer) => {
+    let client = ready.get(container);
+
+    if (!client) {
+      const candidate = service.getContainerClient(containerNames[container]);
+      client = candidate.createIfNotExists().then(() => candidate);
+      // Forget failed attempts so a later call can retry.
+      client.catch(() => ready.delete(container));
+      ready.set(container, client);
+    }
+
+    return client;
+  };
+
+  const blobClient = async (container: BlobContainer, key: string) => {
+    if (!isValidBlobKey(key)) {
+      throw new Error(`Invalid blob key "${key}".`);
+    }
+    return (await containerClient(container)).getBlockBlobClient(key);
+  };
+
+  return {
+    async put(container, key, data, options) {
+      const client = await blobClient(container, key);
+      await client.uploadData(data, {
+        blobHTTPHeaders: options?.contentType
+          ? { blobContentType: options.contentType }
+          : undefined,
+      });
+    },
+
+    async get(container, key) {
+      if (!isValidBlobKey(key)) return null;
+
+      try {
+        return await (await blobClient(container, key)).downloadToBuffer();
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async openReadStream(container, key, range) {
+      if (!isValidBlobKey(key)) return null;
+
+      try {
+        const { readableStreamBody } = await (
+          await blobClient(container, key)
+        ).download(range?.start, range && range.end - range.start + 1);
+        return readableStreamBody
+          ? Readable.from(readableStreamBody)
+          : Readable.from([]);
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async stat(container, key) {
+      if (!isValidBlobKey(key)) return null;
+
+      try {
+        const properties = await (
+          await blobClient(container, key)
+        ).getProperties();
+        return {
+          size: properties.contentLength ?? 0,
+          contentType: properties.contentType,
+          lastModified: properties.lastModified ?? new Date(0),
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async exists(container, key) {
+      if (!isValidBlobKey(key)) return false;
+      return (await blobClient(container, key)).exists();
+    },
+
+    async delete(container, key) {
+      if (!isValidBlobKey(key)) return false;
+      const { succeeded } = await (
+        await blobClient(container, key)
+      ).deleteIfExists();
+      return succeeded;
+    },
+
+    async list(container, prefix) {
+      const client = await containerClient(container);
+      const listings = [];
+
+      for await (const blob of client.listBlobsFlat({ prefix })) {
+        listings.push({
+          key: blob.name,
+          size: blob.properties.contentLength ?? 0,
+          contentType: blob.properties.contentType,
+          lastModified: blob.properties.lastModified,
+        });
+      }
+
+      return listings;
+    },
+  };
+}
+
+function isNotFound(error: unknown) {
+  return error instanceof RestError && error.statusCode === 404;
+}
@@ -0,0 +1,166 @@
+import { Readable } from "node:stream";
+import { getBlobStore } from "@/lib/storage";
+import { BlobContainer, BlobRange } from "@/lib/storage/blobStore";
+
+export interface BlobResponseOptions {
+  contentType: string;
+  /** `attachment` forces a download; `inline` lets the browser render it. */
+  disposition?: "attachment" | "inline";
+  /** Name offered to the browser; may contain any Unicode characters. */
+  filename?: string;
+  /** Extra headers such as a `Content-Security-Policy` for inline HTML. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Streams a blob with conditional-request and single-range support: `ETag`
+ * and `Last-Modified` validators answer repeat requests with 304, and a
+ * `Range: bytes=…` header (honoured unless an `If-Range` validator is stale)
+ * yields a 206 partial response. Multi-range requests get the whole blob.
+ */
+export async function blobResponse(
+  request: Request,
+  container: BlobContainer,
+  key: string,
+  { contentType, disposition, filename, headers: extraHeaders }: BlobResponseOptions,
+): Promise<Response> {
+  const store = getBlobStore();
+  const properties = await store.stat(container, key);
+
+  if (!properties) {
+    return new Response("File not found", { status: 404 });
+  }
+
+  const { size, lastModified } = properties;
+  // Content under a key never changes, so size and write time identify it.
+  const etag = `"${size.toString(36)}-${lastModified.getTime().toString(36)}"`;
+  const headers: Record<string, string> = {
+    "Content-Type": contentType,
+    "Accept-Ranges": "bytes",
+    ETag: etag,
+    "Last-Modified": lastModified.toUTCString(),
+    "X-Content-Type-Options": "nosniff",
+    // The link itself expires, so the browser must not reuse it for long.
+    "Cache-Control": "private, max-age=3600",
+    ...extraHeaders,
+  };
+  if (disposition) {
+    headers["Content-Disposition"] = contentDisposition(
+      disposition,
+      filename ?? key,
+    );
+  }
+
+  if (isNotModified(request.headers, etag, lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const range = matchesIfRange(request.headers.get("if-range"), etag, lastModified)
+    ? parseRange(request.headers.get("range"), size)
+    : null;
+
+  if (range === "unsatisfiable") {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${size}` },
+    });
+  }
+
+  const stream = await store.openReadStream(
+    container,
+    key,
+    size ? (range ?? undefined) : undefined,
+  );
+  if (!stream) {
+    return new Response("File not found", { status: 404 });
+  }
+
+  const body = Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+
+  if (range) {
+    return new Response(body, {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+        "Content-Length": String(range.end - range.start + 1),
+      },
+    });
+  }
+
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, "Content-Length": String(size) },
+  });
+}
+
+/**
+ * Builds a `Content-Disposition` value with an ASCII `filename` fallback and
+ * the exact name as an RFC 5987 `filename*` parameter.
+ */
+export function contentDisposition(
+  type: "attachment" | "inline",
+  filename: string,
+) {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\%]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function isNotModified(headers: Headers, etag: string, lastModified: Date) {
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return (
+      ifNoneMatch.trim() === "*" ||
+      ifNoneMatch
+        .split(",")
+        .some((candidate) => candidate.trim().replace(/^W\//, "") === etag)
+    );
+  }
+
+  const ifModifiedSince = Date.parse(headers.get("if-modified-since") ?? "");
+  // HTTP dates have one-second precision.
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince
+  );
+}
+
+function matchesIfRange(
+  ifRange: string | null,
+  etag: string,
+  lastModified: Date,
+) {
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"')) return ifRange === etag;
+  return Date.parse(ifRange) === Math.floor(lastModified.getTime() / 1000) * 1000;
+}
+
+/**
+ * Parses a single `bytes=` range into inclusive offsets. Returns null when the
+ * whole blob should be sent (no, malformed or multi-range header, or a range
+ * ending before it starts, which RFC 9110 treats as invalid and ignored).
+ */
+function parseRange(
+  header: string | null,
+  size: number,
+): BlobRange | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const [, first, last] = match;
+  if (!first) {
+    const suffix = Number(last);
+    if (!suffix || !size) return "unsatisfiable";
+    return { start: Math.max(size - suffix, 0), end: size - 1 };
+  }
+
+  const start = Number(first);
+  if (last && Number(last) < start) return null;
+  if (start >= size) return "unsatisfiable";
+  return { start, end: last ? Math.min(Number(last), size - 1) : size - 1 };
+}
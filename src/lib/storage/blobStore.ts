@@ -0,0 +1,64 @@
+import type { Readable } from "node:stream";
+
+/**
+ * Logical buckets for binary content: user uploads (plus their thumbnails,
+ * extracted text and search indexes) and tool-generated documents.
+ */
+export type BlobContainer = "uploads" | "generated";
+
+export interface BlobProperties {
+  size: number;
+  contentType?: string;
+  lastModified: Date;
+}
+
+export interface BlobListing extends BlobProperties {
+  key: string;
+}
+
+/** Inclusive byte range, as in an HTTP `Range` header. */
+export interface BlobRange {
+  start: number;
+  end: number;
+}
+
+export interface PutBlobOptions {
+  contentType?: string;
+}
+
+export interface BlobStore {
+  put(
+    container: BlobContainer,
+    key: string,
+    data: Buffer,
+    options?: PutBlobOptions,
+  ): Promise<void>;
+  /**
+   * Returns `null` when the blob does not exist.
+   */
+  get(container: BlobContainer, key: string): Promise<Buffer | null>;
+  /**
+   * Streams the blob, or only `range` of it, without buffering it in memory.
+   * Returns `null` when the blob does not exist.
+   */
+  openReadStream(
+    container: BlobContainer,
+    key: string,
+    range?: BlobRange,
+  ): Promise<Readable | null>;
+  stat(container: BlobContainer, key: string): Promise<BlobProperties | null>;
+  exists(container: BlobContainer, key: string): Promise<boolean>;
+  delete(container: BlobContainer, key: string): Promise<boolean>;
+  /**
+   * Lists blobs whose key starts with `prefix` (all blobs when omitted).
+   */
+  list(container: BlobContainer, prefix?: string): Promise<BlobListing[]>;
+}
+
+/**
+ * Keys are flat file names; anything that could address another location is
+ * rejected before it reaches a backend.
+ */
+export function isValidBlobKey(key: string): boolean {
+  return /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,254}$/.test(key) && !key.includes("..");
+}
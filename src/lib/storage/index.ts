@@ -0,0 +1,81 @@
+import { BlobStore } from "@/lib/storage/blobStore";
+import { createAzureBlobStore } from "@/lib/storage/azureBlobStore";
+import { createLocalBlobStore } from "@/lib/storage/localBlobStore";
+import {
+  signBlobDeleteUrl,
+  signBlobQuery,
+  signBlobUrl,
+} from "@/lib/storage/signedUrls";
+
+let store: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!store) {
+    const kind = process.env.BLOB_STORE ?? "local";
+
+    if (kind === "local") {
+      store = createLocalBlobStore();
+    } else if (kind === "azure") {
+      const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
+
+      if (!connectionString) {
+        throw new Error(
+          'BLOB_STORE="azure" requires AZURE_STORAGE_CONNECTION_STRING.',
+        );
+      }
+
+      store = createAzureBlobStore({
+        connectionString,
+        containerNames: {
+          uploads: process.env.AZURE_STORAGE_UPLOADS_CONTAINER ?? "uploads",
+          generated: process.env.AZURE_STORAGE_GENERATED_CONTAINER ?? "generated",
+        },
+      });
+    } else {
+      throw new Error(`Unsupported BLOB_STORE "${kind}".`);
+    }
+  }
+
+  return store;
+}
+
+/**
+ * Signed, expiring link to an upload, served by `/api/uploads/[file]` from
+ * whichever store is configured.
+ */
+export function uploadUrl(key: string) {
+  return signBlobUrl("uploads", key);
+}
+
+/**
+ * Signed link for `DELETE /api/upload/[id]` that releases one upload's claim
+ * on the stored file. The signature covers the claim, so it cannot be used to
+ * release anyone else's.
+ */
+export function uploadDeleteUrl(id: string, claim: string) {
+  const query = new URLSearchParams({ claim });
+  signBlobQuery("uploads", `${id}.${claim}`, "delete").forEach((value, name) =>
+    query.set(name, value),
+  );
+  return `/api/upload/${id}?${query}`;
+}
+
+/**
+ * Signed, expiring link to a generated document served by
+ * `/api/generated/[file]`. `filename` is the name offered when it is saved;
+ * keys are ASCII-only, so this is how Unicode names reach the browser.
+ */
+export function generatedUrl(key: string, filename?: string) {
+  const url = signBlobUrl("generated", key);
+  return filename ? `${url}&${new URLSearchParams({ name: filename })}` : url;
+}
+
+/**
+ * Signed link that deletes a generated document through
+ * `DELETE /api/generated/[file]`.
+ */
+export function generatedDeleteUrl(key: string) {
+  return signBlobDeleteUrl("generated", key);
+}
+
+export type { BlobContainer, BlobStore } from "@/lib/storage/blobStore";
@@ -0,0 +1,114 @@
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { GENERATED_DIR, UPLOAD_DIR } from "@/lib/fsUtils";
+import {
+  BlobContainer,
+  BlobStore,
+  isValidBlobKey,
+} from "@/lib/storage/blobStore";
+
+/**
+ * Keeps blobs as plain files, one directory per container. Writes go through
+ * a temporary file and a rename so readers never see a partial blob.
+ */
+export function createLocalBlobStore(
+  directories: Record<BlobContainer, string> = {
+    uploads: UPLOAD_DIR,
+    generated: GENERATED_DIR,
+  },
+): BlobStore {
+  const filePath = (container: BlobContainer, key: string) => {
+    if (!isValidBlobKey(key)) {
+      throw new Error(`Invalid blob key "${key}".`);
+    }
+    return path.join(directories[container], key);
+  };
+
+  return {
+    async put(container, key, data) {
+      const destination = filePath(container, key);
+      const temporary = `${destination}.${randomUUID()}.tmp`;
+
+      await mkdir(directories[container], { recursive: true });
+      await writeFile(temporary, data);
+      await rename(temporary, destination);
+    },
+
+    async get(container, key) {
+      if (!isValidBlobKey(key)) return null;
+
+      try {
+        return await readFile(filePath(container, key));
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async openReadStream(container, key, range) {
+      if (!(await this.exists(container, key))) return null;
+      return createReadStream(filePath(container, key), range);
+    },
+
+    async stat(container, key) {
+      if (!isValidBlobKey(key)) return null;
+
+      try {
+        const stats = await stat(filePath(container, key));
+        return { size: stats.size, lastModified: stats.mtime };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async exists(container, key) {
+      return (await this.stat(container, key)) !== null;
+    },
+
+    async delete(container, key) {
+      if (!isValidBlobKey(key) || !(await this.exists(container, key))) {
+        return false;
+      }
+
+      await rm(filePath(container, key), { force: true });
+      return true;
+    },
+
+    async list(container, prefix = "") {
+      let names: string[];
+
+      try {
+        names = await readdir(directories[container]);
+      } catch (error) {
+        if (isNotFound(error)) return [];
+        throw error;
+      }
+
+      const listings = await Promise.all(
+        names
+          .filter((name) => name.startsWith(prefix) && isValidBlobKey(name))
+          .map(async (key) => {
+            const properties = await this.stat(container, key);
+            return properties ? { key, ...properties } : null;
+          }),
+      );
+
+      return listings.filter((listing) => listing !== null);
+    },
+  };
+}
+
+function isNotFound(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
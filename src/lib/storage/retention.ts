@@ -0,0 +1,90 @@
+import { readNonNegativeInt, readPositiveInt } from "@/lib/env";
+import { BlobContainer, getBlobStore } from "@/lib/storage";
+
+export interface RetentionPolicy {
+  /**
+   * Hours a blob is kept after its last write; 0 keeps it forever.
+   */
+  ttlHours: Record<BlobContainer, number>;
+  sweepIntervalMinutes: number;
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    ttlHours: {
+      uploads: readNonNegativeInt(process.env.RETENTION_UPLOAD_TTL_HOURS, 0),
+      generated: readNonNegativeInt(process.env.RETENTION_GENERATED_TTL_HOURS, 0),
+    },
+    sweepIntervalMinutes: readPositiveInt(
+      process.env.RETENTION_SWEEP_INTERVAL_MINUTES,
+      60,
+    ),
+  };
+}
+
+/**
+ * Key of the file a blob belongs to: everything before the first dot, so an
+ * upload's thumbnail, extracted text and search index share its lifetime.
+ */
+function blobGroup(key: string) {
+  return key.split(".")[0];
+}
+
+/**
+ * Deletes every blob group whose newest member is older than the container's
+ * TTL and returns the number of blobs removed.
+ */
+export async function sweepExpiredBlobs(
+  policy = getRetentionPolicy(),
+  now = Date.now(),
+): Promise<number> {
+  const store = getBlobStore();
+  let removed = 0;
+
+  for (const [container, ttlHours] of Object.entries(policy.ttlHours) as Array<
+    [BlobContainer, number]
+  >) {
+    if (!ttlHours) continue;
+
+    const cutoff = now - ttlHours * 60 * 60 * 1000;
+    const groups = new Map<string, { keys: string[]; newest: number }>();
+
+    for (const blob of await store.list(container)) {
+      const group = groups.get(blobGroup(blob.key)) ?? { keys: [], newest: 0 };
+      group.keys.push(blob.key);
+      group.newest = Math.max(group.newest, blob.lastModified.getTime());
+      groups.set(blobGroup(blob.key), group);
+    }
+
+    for (const { keys, newest } of groups.values()) {
+      if (newest >= cutoff) continue;
+
+      for (const key of keys) {
+        if (await store.delete(container, key)) removed += 1;
+      }
+    }
+  }
+
+  return removed;
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+/**
+ * Runs `sweepExpiredBlobs` now and on every interval. Does nothing when no
+ * container has a TTL, and never starts twice in one process.
+ */
+export function startRetentionSweeper(policy = getRetentionPolicy()) {
+  if (sweeper || !Object.values(policy.ttlHours).some(Boolean)) return;
+
+  const sweep = () =>
+    sweepExpiredBlobs(policy)
+      .then((removed) => {
+        if (removed) console.info(`[retention] Removed ${removed} expired blob(s)`);
+      })
+      .catch((error) => console.warn("[retention] Sweep failed", error));
+
+  void sweep();
+  sweeper = setInterval(sweep, policy.sweepIntervalMinutes * 60 * 1000);
+  sweeper.unref();
+}
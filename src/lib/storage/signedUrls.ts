@@ -0,0 +1,181 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { readPositiveInt } from "@/lib/env";
+import { BlobContainer } from "@/lib/storage/blobStore";
+import { ChatMessage } from "@/lib/types";
+
+export type SignatureCheck = "valid" | "expired" | "invalid";
+
+/**
+ * What a signature grants. Delete links are signed separately so a download
+ * link cannot be used to remove the file.
+ */
+export type SignatureScope = "read" | "delete";
+
+const ROUTES: Record<BlobContainer, string> = {
+  uploads: "/api/uploads/",
+  generated: "/api/generated/",
+};
+
+let fallbackSecret: Buffer | null = null;
+
+/**
+ * Called once at startup from `src/instrumentation.ts`, so a missing secret
+ * is reported before the first link fails rather than when it does.
+ */
+export function warnIfSigningSecretMissing() {
+  if (process.env.URL_SIGNING_SECRET) return;
+
+  console.warn(
+    "[storage] URL_SIGNING_SECRET is not set; using a random per-process key. Signed links will stop working when the server restarts and are rejected by other instances. Set it in production.",
+  );
+}
+
+function getSigningSecret(): Buffer {
+  const configured = process.env.URL_SIGNING_SECRET;
+  if (configured) return Buffer.from(configured, "utf-8");
+
+  fallbackSecret ??= randomBytes(32);
+  return fallbackSecret;
+}
+
+function signature(
+  container: BlobContainer,
+  key: string,
+  expires: number,
+  scope: SignatureScope,
+) {
+  // Read links predate scopes, so their payload stays unchanged.
+  const subject =
+    scope === "read" ? `${container}/${key}` : `${container}/${key}:${scope}`;
+  return createHmac("sha256", getSigningSecret())
+    .update(`${subject}:${expires}`)
+    .digest("base64url");
+}
+
+/**
+ * `expires` and `sig` parameters for `key`, valid for
+ * `SIGNED_URL_TTL_SECONDS` (default one day).
+ */
+export function signBlobQuery(
+  container: BlobContainer,
+  key: string,
+  scope: SignatureScope = "read",
+  now = Date.now(),
+): URLSearchParams {
+  const ttlSeconds = readPositiveInt(process.env.SIGNED_URL_TTL_SECONDS, 86_400);
+  const expires = Math.floor(now / 1000) + ttlSeconds;
+
+  return new URLSearchParams({
+    expires: String(expires),
+    sig: signature(container, key, expires, scope),
+  });
+}
+
+/**
+ * Mints a link to the blob route that serves `key`.
+ */
+export function signBlobUrl(
+  container: BlobContainer,
+  key: string,
+  now = Date.now(),
+): string {
+  return `${ROUTES[container]}${encodeURIComponent(key)}?${signBlobQuery(container, key, "read", now)}`;
+}
+
+/**
+ * Mints a link for `DELETE` on the blob route that serves `key`. It does not
+ * grant reading the blob.
+ */
+export function signBlobDeleteUrl(
+  container: BlobContainer,
+  key: string,
+  now = Date.now(),
+): string {
+  return `${ROUTES[container]}${encodeURIComponent(key)}?${signBlobQuery(container, key, "delete", now)}`;
+}
+
+export function verifyBlobSignature(
+  container: BlobContainer,
+  key: string,
+  searchParams: URLSearchParams,
+  scope: SignatureScope = "read",
+  now = Date.now(),
+): SignatureCheck {
+  const expires = Number(searchParams.get("expires"));
+  const provided = Buffer.from(searchParams.get("sig") ?? "", "utf-8");
+  const expected = Buffer.from(signature(container, key, expires, scope), "utf-8");
+
+  if (
+    !Number.isInteger(expires) ||
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return "invalid";
+  }
+
+  return expires * 1000 < now ? "expired" : "valid";
+}
+
+/**
+ * 403 response for a missing, tampered or expired signature; `null` when the
+ * request may proceed.
+ */
+export function rejectUnsignedRequest(
+  container: BlobContainer,
+  key: string,
+  searchParams: URLSearchParams,
+  scope: SignatureScope = "read",
+): Response | null {
+  const check = verifyBlobSignature(container, key, searchParams, scope);
+
+  if (check === "valid") return null;
+
+  return new Response(
+    check === "expired" ? "This link has expired." : "Invalid or missing signature.",
+    { status: 403 },
+  );
+}
+
+/**
+ * Re-signs a previously minted blob link so stored messages can be served
+ * again after their links expired. Query parameters other than the signature
+ * are kept; other URLs are returned unchanged.
+ */
+export function refreshSignedUrl(url: string): string;
+export function refreshSignedUrl(url: string | undefined): string | undefined;
+export function refreshSignedUrl(url: string | undefined) {
+  if (!url) return url;
+
+  for (const [container, route] of Object.entries(ROUTES) as Array<
+    [BlobContainer, string]
+  >) {
+    if (url.startsWith(route)) {
+      const [path, search] = url.slice(route.length).split("?");
+      const params = new URLSearchParams(search);
+      params.delete("expires");
+      params.delete("sig");
+
+      const signed = signBlobUrl(container, decodeURIComponent(path));
+      return params.toString() ? `${signed}&${params}` : signed;
+    }
+  }
+
+  return url;
+}
+
+export function refreshMessageUrls(message: ChatMessage): ChatMessage {
+  return {
+    ...message,
+    attachments: message.attachments?.map((attachment) => ({
+      ...attachment,
+      publicUrl: refreshSignedUrl(attachment.publicUrl),
+      thumbnailUrl: refreshSignedUrl(attachment.thumbnailUrl),
+    })),
+    generatedFiles: message.generatedFiles?.map((file) => ({
+      ...file,
+      downloadUrl: refreshSignedUrl(file.downloadUrl),
+      deleteUrl:
+        file.deleteUrl && signBlobDeleteUrl("generated", file.storedFilename),
+    })),
+  };
+}
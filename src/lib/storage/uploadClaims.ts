@@ -0,0 +1,69 @@
+import { randomUUID } from "node:crypto";
+import { createKeyedMutex } from "@/lib/keyedMutex";
+import { getBlobStore } from "@/lib/storage";
+
+export type ClaimRelease = "deleted" | "kept" | "unknown";
+
+/**
+ * Identical uploads share one stored file, so every upload records a claim in
+ * `<id>.claims.json` and the file is only deleted once all of them are
+ * released. Messages that were sent keep their claim for good. Changes to the
+ * same id are serialised within this process.
+ */
+const exclusive = createKeyedMutex();
+
+function claimsKey(id: string) {
+  return `${id}.claims.json`;
+}
+
+async function readClaims(id: string): Promise<string[]> {
+  const data = await getBlobStore().get("uploads", claimsKey(id));
+  return data ? (JSON.parse(data.toString("utf-8")) as string[]) : [];
+}
+
+async function writeClaims(id: string, claims: string[]) {
+  await getBlobStore().put(
+    "uploads",
+    claimsKey(id),
+    Buffer.from(JSON.stringify(claims), "utf-8"),
+    { contentType: "application/json" },
+  );
+}
+
+/**
+ * Records a new claim on upload `id` and returns it. Call this before the
+ * file is written so a concurrent release cannot delete it underneath.
+ */
+export function addUploadClaim(id: string): Promise<string> {
+  return exclusive(id, async () => {
+    const claim = randomUUID();
+    await writeClaims(id, [...(await readClaims(id)), claim]);
+    return claim;
+  });
+}
+
+/**
+ * Releases `claim` and deletes the upload with its derived files when no
+ * other claim remains. Unknown claims (already released, or uploads stored
+ * before claims existed) leave everything in place.
+ */
+export function releaseUploadClaim(
+  id: string,
+  claim: string,
+): Promise<ClaimRelease> {
+  return exclusive(id, async () => {
+    const claims = await readClaims(id);
+    if (!claims.includes(claim)) return "unknown";
+
+    const remaining = claims.filter((entry) => entry !== claim);
+    if (remaining.length) {
+      await writeClaims(id, remaining);
+      return "kept";
+    }
+
+    const store = getBlobStore();
+    const blobs = await store.list("uploads", `${id}.`);
+    await Promise.all(blobs.map((blob) => store.delete("uploads", blob.key)));
+    return "deleted";
+  });
+}
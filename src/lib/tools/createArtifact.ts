@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { getArtifactStore } from "@/lib/artifacts";
+import { renderArtifact } from "@/lib/artifacts/render";
+import { toArtifactSnapshot } from "@/lib/artifacts/store";
+import { defineTool } from "@/lib/tools/types";
+
+const artifactArgsSchema = z.object({
+  title: z.string().min(1).max(120).describe("Short name for the artifact card."),
+  description: z
+    .string()
+    .nullish()
+    .describe("Optional description for the artifact preview."),
+  html: z
+    .string()
+    .min(1)
+    .describe("Body markup for the micro-application. Keep it self-contained."),
+  css: z
+    .string()
+    .nullish()
+    .describe("Optional CSS to style the artifact. Avoid global resets."),
+  js: z
+    .string()
+    .nullish()
+    .describe("Optional JavaScript that should run when the artifact loads."),
+});
+
+export const createArtifactTool = defineTool({
+  name: "create_artifact",
+  description:
+    "Create an interactive micro-application that can run client-side inside a sandboxed iframe. Provide the HTML, CSS, and optional JavaScript needed. To change an artifact that already exists, call update_artifact instead.",
+  parameters: artifactArgsSchema,
+  async execute({ html, css, js, title, description }) {
+    const source = { html, css: css ?? undefined, js: js ?? undefined };
+    const stored = await getArtifactStore().create({
+      title,
+      description: description ?? undefined,
+      ...source,
+      ...renderArtifact(source),
+    });
+    const artifact = toArtifactSnapshot(stored);
+
+    return {
+      output: { success: true, artifactId: artifact.id, version: 1 },
+      artifact,
+    };
+  },
+});
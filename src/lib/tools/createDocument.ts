@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { createDocumentFile, DOCUMENT_TYPES } from "@/lib/documentFactory";
+import { CHART_CONTENT_HINT } from "@/lib/documents/charts";
+import {
+  CSV_CONTENT_HINT,
+  CSV_DELIMITERS,
+  CsvValidationError,
+} from "@/lib/documents/csv";
+import { SPREADSHEET_CONTENT_HINT } from "@/lib/documents/spreadsheet";
+import { generatedDeleteUrl, generatedUrl } from "@/lib/storage";
+import { GeneratedFile } from "@/lib/types";
+import { defineTool } from "@/lib/tools/types";
+
+const documentArgsSchema = z.object({
+  filename: z
+    .string()
+    .min(1)
+    .describe("Base filename for the generated document without extension."),
+  type: z.enum(DOCUMENT_TYPES).describe("File type to generate."),
+  content: z
+    .string()
+    .min(1)
+    .describe(
+      [
+        "Content for the file. PDF and DOCX content is Markdown: headings, bold/italic, lists, tables, code blocks, block quotes and links are rendered as formatting.",
+        'Images go on their own line as ![caption](attachment:<Attachment ID>) for an uploaded image, ![caption](data:image/png;base64,…), or a fenced ```svg block.',
+        CHART_CONTENT_HINT,
+        "PPTX content is a Markdown outline: each # or ## heading (or ---) starts a slide, lists become bullets, the first table, image or chart on a slide is drawn below the text and block quotes become speaker notes; a leading # heading with only paragraphs becomes the title slide.",
+        SPREADSHEET_CONTENT_HINT,
+        CSV_CONTENT_HINT,
+        "HTML content is a full document, an HTML fragment or Markdown. JSON content must be valid JSON.",
+      ].join(" "),
+    ),
+  template: z
+    .string()
+    .nullish()
+    .describe(
+      'Optional document template for PDF and DOCX output (logo, title page, header/footer, fonts, colours). Built-in: "default", "report" (with title page), "plain". Omit to use the configured default.',
+    ),
+  csvDelimiter: z
+    .enum(CSV_DELIMITERS)
+    .nullish()
+    .describe(
+      'Optional field delimiter for CSV output: ",", ";" (common for European Excel), tab or "|". Defaults to ",".',
+    ),
+  csvBom: z
+    .boolean()
+    .nullish()
+    .describe(
+      "Optional. Start the CSV with a UTF-8 byte order mark so Excel opens non-ASCII text correctly.",
+    ),
+  summary: z
+    .string()
+    .nullish()
+    .describe("Optional short description of the generated document contents."),
+});
+
+export const createDocumentTool = defineTool({
+  name: "create_document",
+  description:
+    "Create a downloadable document (PDF, DOCX, XLSX spreadsheet, PPTX slide deck, HTML page, JSON, TXT, CSV, or Markdown) from the provided content.",
+  parameters: documentArgsSchema,
+  async execute(
+    { filename, type, content, template, csvDelimiter, csvBom, summary },
+    { attachments },
+  ) {
+    let result;
+    try {
+      result = await createDocumentFile({
+        filename,
+        type,
+        content,
+        template,
+        attachments,
+        csv: { delimiter: csvDelimiter, bom: csvBom },
+      });
+    } catch (error) {
+      if (!(error instanceof CsvValidationError)) throw error;
+      return {
+        output: {
+          success: false,
+          error: {
+            code: "invalid_csv",
+            message: error.message,
+            validationErrors: error.issues,
+          },
+        },
+      };
+    }
+    const downloadUrl = generatedUrl(
+      result.storedFilename,
+      result.filename,
+    );
+
+    const generatedFile: GeneratedFile = {
+      id: result.id,
+      filename: result.filename,
+      type: result.type,
+      storedFilename: result.storedFilename,
+      downloadUrl,
+      deleteUrl: generatedDeleteUrl(result.storedFilename),
+      summary: summary ?? undefined,
+    };
+
+    return {
+      output: {
+        success: true,
+        fileId: result.id,
+        downloadUrl,
+        filename: result.filename,
+      },
+      generatedFile,
+    };
+  },
+});
@@ -0,0 +1,24 @@
+import { readPositiveInt } from "@/lib/env";
+
+export interface ToolLoopLimits {
+  /**
+   * Maximum number of tool-call rounds (model response -> tool outputs) per turn.
+   */
+  maxIterations: number;
+  /**
+   * Maximum number of individual function calls executed per turn.
+   */
+  maxToolCalls: number;
+  /**
+   * Default time a single tool may run before it is reported as timed out.
+   */
+  toolTimeoutMs: number;
+}
+
+export function getToolLoopLimits(): ToolLoopLimits {
+  return {
+    maxIterations: readPositiveInt(process.env.CHAT_MAX_TOOL_ITERATIONS, 8),
+    maxToolCalls: readPositiveInt(process.env.CHAT_MAX_TOOL_CALLS, 16),
+    toolTimeoutMs: readPositiveInt(process.env.CHAT_TOOL_TIMEOUT_MS, 60_000),
+  };
+}
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import type { FunctionTool } from "openai/resources/responses/responses";
+import { ChatTool, ChatToolResult } from "@/lib/tools/types";
+import { createArtifactTool } from "@/lib/tools/createArtifact";
+import { createDocumentTool } from "@/lib/tools/createDocument";
+import { searchAttachmentsTool } from "@/lib/tools/searchAttachments";
+import { updateArtifactTool } from "@/lib/tools/updateArtifact";
+import { UploadedFileMetadata } from "@/lib/types";
+
+type JsonSchema = Record<string, unknown>;
+
+const TOOL_REGISTRY: ChatTool[] = [
+  createArtifactTool,
+  updateArtifactTool,
+  createDocumentTool,
+  searchAttachmentsTool,
+];
+
+// Keywords rejected by strict function calling. They are still enforced by
+// the zod schema when the call is executed.
+const UNSUPPORTED_STRICT_KEYWORDS = new Set([
+  "$schema",
+  "minLength",
+  "maxLength",
+  "default",
+]);
+
+export function listToolNames(): string[] {
+  return TOOL_REGISTRY.map((tool) => tool.name);
+}
+
+export function isRegisteredTool(name: string): boolean {
+  return TOOL_REGISTRY.some((tool) => tool.name === name);
+}
+
+/**
+ * Resolves the tools available for a request. `CHAT_ENABLED_TOOLS` (comma
+ * separated) limits what the deployment exposes; a request may narrow that set
+ * further but never widen it.
+ */
+export function getEnabledTools(requested?: string[]): ChatTool[] {
+  const environmentTools = parseToolList(process.env.CHAT_ENABLED_TOOLS);
+
+  return TOOL_REGISTRY.filter(
+    (tool) =>
+      (!environmentTools || environmentTools.includes(tool.name)) &&
+      (!requested || requested.includes(tool.name)),
+  );
+}
+
+/**
+ * Strict mode requires every property to be listed in `required`, so optional
+ * arguments must be declared `.nullish()` in the zod schema.
+ */
+export function toFunctionTool(tool: ChatTool): FunctionTool {
+  return {
+    type: "function",
+    name: tool.name,
+    description: tool.description,
+    strict: true,
+    parameters: toStrictJsonSchema(
+      z.toJSONSchema(tool.parameters, { io: "input" }) as JsonSchema,
+    ),
+  };
+}
+
+export interface ExecuteToolCallOptions {
+  signal?: AbortSignal;
+  timeoutMs: number;
+  attachments: UploadedFileMetadata[];
+}
+
+/**
+ * Validates and runs one function call. Failures are returned as structured
+ * outputs for the model; only cancellation of the whole request is thrown.
+ */
+export async function executeToolCall(
+  tools: ChatTool[],
+  name: string,
+  rawArgs: string,
+  options: ExecuteToolCallOptions,
+): Promise<ChatToolResult> {
+  const tool = tools.find((candidate) => candidate.name === name);
+
+  if (!tool) {
+    return toolError("unknown_tool", `Unknown function: ${name}`, {
+      availableTools: tools.map((candidate) => candidate.name),
+    });
+  }
+
+  const jsonArgs = safeJsonParse(rawArgs);
+
+  if (jsonArgs === null) {
+    return toolError(
+      "invalid_json",
+      `Arguments for ${name} are not valid JSON.`,
+    );
+  }
+
+  const parsed = tool.parameters.safeParse(jsonArgs);
+
+  if (!parsed.success) {
+    return toolError("invalid_arguments", `Invalid arguments for ${name}.`, {
+      fieldErrors: z.flattenError(parsed.error).fieldErrors,
+    });
+  }
+
+  const timeoutMs = tool.timeoutMs ?? options.timeoutMs;
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, timeoutSignal])
+    : timeoutSignal;
+
+  try {
+    return await raceAbort(
+      tool.execute(parsed.data, {
+        signal,
+        attachments: options.attachments,
+      }),
+      signal,
+    );
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+
+    if (timeoutSignal.aborted) {
+      return toolError("timeout", `${name} timed out after ${timeoutMs}ms.`);
+    }
+
+    console.error(`[tools] ${name} failed`, error);
+    return toolError(
+      "execution_failed",
+      error instanceof Error ? error.message : `${name} failed.`,
+    );
+  }
+}
+
+function toolError(
+  code: string,
+  message: string,
+  details?: Record<string, unknown>,
+): ChatToolResult {
+  return {
+    output: {
+      success: false,
+      error: { code, message, ...details },
+    },
+  };
+}
+
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function toStrictJsonSchema(schema: JsonSchema): JsonSchema {
+  const strict: JsonSchema = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (!UNSUPPORTED_STRICT_KEYWORDS.has(key)) {
+      strict[key] = value;
+    }
+  }
+
+  if (strict.properties && typeof strict.properties === "object") {
+    const properties = Object.fromEntries(
+      Object.entries(strict.properties as Record<string, JsonSchema>).map(
+        ([key, value]) => [key, toStrictJsonSchema(value)],
+      ),
+    );
+    strict.properties = properties;
+    strict.required = Object.keys(properties);
+    strict.additionalProperties = false;
+  }
+
+  if (strict.items && typeof strict.items === "object") {
+    strict.items = toStrictJsonSchema(strict.items as JsonSchema);
+  }
+
+  if (Array.isArray(strict.anyOf)) {
+    strict.anyOf = (strict.anyOf as JsonSchema[]).map(toStrictJsonSchema);
+  }
+
+  return strict;
+}
+
+function parseToolList(value: string | undefined): string[] | null {
+  if (!value?.trim()) return null;
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+function safeJsonParse(input: string): unknown | null {
+  try {
+    return input ? JSON.parse(input) : {};
+  } catch {
+    return null;
+  }
+}
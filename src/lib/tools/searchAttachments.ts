@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { searchAttachments } from "@/lib/retrieval";
+import { defineTool } from "@/lib/tools/types";
+
+const DEFAULT_TOP_K = 5;
+
+const searchArgsSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .describe("Keywords or a question describing the passages to find."),
+  attachmentIds: z
+    .array(z.string())
+    .nullish()
+    .describe("Limit the search to these attachment ids; omit to search all."),
+  topK: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .nullish()
+    .describe(`Number of passages to return (default ${DEFAULT_TOP_K}).`),
+});
+
+export const searchAttachmentsTool = defineTool({
+  name: "search_attachments",
+  description:
+    "Search large attached files that were too big to include in full. Returns the best matching passages with file names and line ranges.",
+  parameters: searchArgsSchema,
+  async execute({ query, attachmentIds, topK }, { attachments }) {
+    const indexed = attachments.filter(
+      (attachment) =>
+        attachment.searchIndexFilename &&
+        (!attachmentIds?.length || attachmentIds.includes(attachment.id)),
+    );
+
+    if (!indexed.length) {
+      return {
+        output: {
+          success: false,
+          error: {
+            code: "no_indexed_attachments",
+            message: attachmentIds?.length
+              ? "None of the requested attachments are indexed for search."
+              : "This conversation has no attachments indexed for search.",
+          },
+        },
+      };
+    }
+
+    const passages = await searchAttachments(
+      indexed,
+      query,
+      topK ?? DEFAULT_TOP_K,
+    );
+
+    return {
+      output: {
+        success: true,
+        query,
+        results: passages.map((passage) => ({
+          attachmentId: passage.attachmentId,
+          file: passage.file,
+          lines: `${passage.startLine}-${passage.endLine}`,
+          score: passage.score,
+          text: passage.text,
+        })),
+      },
+    };
+  },
+});
@@ -0,0 +1,43 @@
+import type { z } from "zod";
+import { Artifact, GeneratedFile, UploadedFileMetadata } from "@/lib/types";
+
+export interface ChatToolResult {
+  /**
+   * JSON-serialisable payload returned to the model as the function output.
+   */
+  output: { success: boolean } & Record<string, unknown>;
+  artifact?: Artifact;
+  generatedFile?: GeneratedFile;
+}
+
+export interface ChatToolContext {
+  /**
+   * Aborted when the request is cancelled or the tool exceeds its timeout.
+   */
+  signal: AbortSignal;
+  /**
+   * Every attachment in the conversation so far, including this turn's.
+   */
+  attachments: UploadedFileMetadata[];
+}
+
+export interface ChatTool<Schema extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  /**
+   * Source of truth for both argument validation and the JSON schema that is
+   * advertised to the model.
+   */
+  parameters: Schema;
+  /**
+   * Overrides the default per-tool timeout from `getToolLoopLimits`.
+   */
+  timeoutMs?: number;
+  execute(args: z.infer<Schema>, context: ChatToolContext): Promise<ChatToolResult>;
+}
+
+export function defineTool<Schema extends z.ZodType>(
+  tool: ChatTool<Schema>,
+): ChatTool<Schema> {
+  return tool;
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { getArtifactStore } from "@/lib/artifacts";
+import { renderArtifact } from "@/lib/artifacts/render";
+import { latestVersion, toArtifactSnapshot } from "@/lib/artifacts/store";
+import { ArtifactSource } from "@/lib/types";
+import { defineTool } from "@/lib/tools/types";
+
+const SOURCE_PARTS = ["html", "css", "js"] as const;
+
+const editSchema = z.object({
+  target: z.enum(SOURCE_PARTS).describe("Which part of the source to edit."),
+  find: z
+    .string()
+    .min(1)
+    .describe(
+      "Exact text to replace. It must occur exactly once, so include enough surrounding context.",
+    ),
+  replace: z.string().describe("Replacement text; empty to delete."),
+});
+
+const updateArtifactArgsSchema = z.object({
+  artifactId: z
+    .string()
+    .min(1)
+    .describe("Id of the artifact to change, as returned by create_artifact."),
+  html: z
+    .string()
+    .nullish()
+    .describe("Optional replacement for the whole body markup."),
+  css: z
+    .string()
+    .nullish()
+    .describe("Optional replacement for the whole stylesheet."),
+  js: z
+    .string()
+    .nullish()
+    .describe("Optional replacement for the whole script."),
+  edits: z
+    .array(editSchema)
+    .nullish()
+    .describe(
+      "Optional find/replace edits applied in order after any replacements. Prefer these for small changes.",
+    ),
+  title: z.string().max(120).nullish().describe("Optional new card title."),
+  description: z.string().nullish().describe("Optional new description."),
+  changeSummary: z
+    .string()
+    .nullish()
+    .describe("Optional short note on what changed, shown in the version history."),
+});
+
+type UpdateArtifactArgs = z.infer<typeof updateArtifactArgsSchema>;
+
+export const updateArtifactTool = defineTool({
+  name: "update_artifact",
+  description:
+    "Change an existing artifact instead of creating a new one, e.g. to restyle it or fix a bug. Send whole replacements for the HTML, CSS or JavaScript, or find/replace edits. The result is stored as a new version of the same artifact, and earlier versions stay available to the user.",
+  parameters: updateArtifactArgsSchema,
+  async execute(args) {
+    const store = getArtifactStore();
+    const current = await store.get(args.artifactId);
+
+    if (!current) {
+      throw new Error(
+        `No artifact with id "${args.artifactId}". Use the artifactId returned by create_artifact.`,
+      );
+    }
+
+    const previous = latestVersion(current);
+    const source = applyChanges(previous, args);
+    const title = args.title ?? previous.title;
+    const description = args.description ?? previous.description;
+
+    if (
+      SOURCE_PARTS.every((part) => (source[part] ?? "") === (previous[part] ?? "")) &&
+      title === previous.title &&
+      description === previous.description
+    ) {
+      throw new Error(
+        "The update does not change the artifact. Send replacements or edits that differ from the current version.",
+      );
+    }
+
+    const updated = await store.addVersion(current.id, {
+      title,
+      description,
+      changeSummary: args.changeSummary ?? undefined,
+      ...source,
+      ...renderArtifact(source),
+    });
+    if (!updated) {
+      throw new Error(`Artifact "${args.artifactId}" was deleted.`);
+    }
+
+    const artifact = toArtifactSnapshot(updated);
+
+    return {
+      output: {
+        success: true,
+        artifactId: artifact.id,
+        version: artifact.version,
+      },
+      artifact,
+    };
+  },
+});
+
+/**
+ * Applies whole-part replacements, then the edits in order. Every edit must
+ * match exactly once; all failures are reported together.
+ */
+function applyChanges(
+  previous: ArtifactSource,
+  { html, css, js, edits }: UpdateArtifactArgs,
+): ArtifactSource {
+  const source: Required<ArtifactSource> = {
+    html: html ?? previous.html,
+    css: css ?? previous.css ?? "",
+    js: js ?? previous.js ?? "",
+  };
+  const problems: string[] = [];
+
+  (edits ?? []).forEach(({ target, find, replace }, index) => {
+    const occurrences = source[target].split(find).length - 1;
+
+    if (occurrences !== 1) {
+      problems.push(
+        occurrences
+          ? `edits[${index}]: "find" occurs ${occurrences} times in ${target}; include more context so it matches once.`
+          : `edits[${index}]: "find" text not found in ${target}.`,
+      );
+      return;
+    }
+
+    source[target] = source[target].replace(find, () => replace);
+  });
+
+  if (problems.length) {
+    throw new Error(`Could not apply the edits. ${problems.join(" ")}`);
+  }
+
+  return {
+    html: source.html,
+    css: source.css || undefined,
+    js: source.js || undefined,
+  };
+}
@@ -1,4 +1,4 @@
-export type AttachmentCategory = "image" | "text" | "other";
+export type AttachmentCategory = "image" | "text" | "document" | "other";
 
 export interface UploadedFileMetadata {
   id: string;
@@ -9,6 +9,58 @@ export interface UploadedFileMetadata {
   publicUrl: string;
   category: AttachmentCategory;
   textPreview?: string;
+  /**
+   * Sidecar file in the upload directory holding text extracted from a
+   * PDF/DOCX/XLSX/PPTX upload.
+   */
+  extractedTextFilename?: string;
+  /**
+   * Sidecar BM25 index for text too large to inline; the model reads such
+   * files through the `search_attachments` tool.
+   */
+  searchIndexFilename?: string;
+  /**
+   * Hex SHA-256 of the content; identical uploads share one stored file.
+   */
+  sha256?: string;
+  /**
+   * True when the upload matched a file already on the server.
+   */
+  deduplicated?: boolean;
+  /**
+   * Pixel size of the processed image sent to the model.
+   */
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string;
+  /**
+   * Vision detail level requested for this image; defaults to "auto".
+   */
+  detail?: ImageDetail;
+  /**
+   * Signed link that releases this upload when its chip is removed before
+   * sending. It is not stored with the message.
+   */
+  deleteUrl?: string;
+}
+
+export type ImageDetail = "auto" | "low" | "high";
+
+export interface UploadRejection {
+  name: string;
+  code:
+    | "empty_file"
+    | "file_too_large"
+    | "type_mismatch"
+    | "type_not_allowed"
+    | "unreadable_image";
+  reason: string;
+}
+
+export interface UploadResponsePayload {
+  files: UploadedFileMetadata[];
+  errors: UploadRejection[];
+  error?: string;
 }
 
 export interface ChatMessage {
@@ -19,6 +71,55 @@ export interface ChatMessage {
   attachments?: UploadedFileMetadata[];
   artifacts?: Artifact[];
   generatedFiles?: GeneratedFile[];
+  /**
+   * Set when the tool loop was cut short by an iteration or tool-call budget.
+   */
+  budgetExceeded?: ToolBudgetStop;
+  /**
+   * Token usage summed across every Responses call made for this turn.
+   */
+  usage?: TokenUsage;
+  /**
+   * Deployment that produced an assistant message.
+   */
+  model?: string;
+  /**
+   * Present when history or attachments were trimmed to fit the context window.
+   */
+  contextReport?: ContextReport;
+}
+
+export interface ContextReport {
+  estimatedInputTokens: number;
+  budgetTokens: number;
+  droppedMessages: number;
+  truncatedAttachments: Array<{
+    attachmentId: string;
+    name: string;
+    originalTokens: number;
+    keptTokens: number;
+  }>;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  /**
+   * Subset of `outputTokens` spent on hidden reasoning.
+   */
+  reasoningTokens: number;
+  totalTokens: number;
+  /**
+   * Estimated from the deployment price table; absent when the deployment
+   * has no configured price.
+   */
+  estimatedCostUsd?: number;
+}
+
+export interface ToolBudgetStop {
+  reason: "max_iterations" | "max_tool_calls";
+  limit: number;
 }
 
 export interface Artifact {
@@ -33,18 +134,113 @@ export interface Artifact {
    * Full micro-app markup rendered inside a sandboxed iframe.
    */
   fullHtml: string;
+  /**
+   * Version of the stored artifact this snapshot shows; absent on artifacts
+   * created before versioning.
+   */
+  version?: number;
+}
+
+/**
+ * The model's HTML, CSS and JavaScript for one artifact version, kept so the
+ * next update can patch it.
+ */
+export interface ArtifactSource {
+  html: string;
+  css?: string;
+  js?: string;
+}
+
+export interface ArtifactVersion extends ArtifactSource {
+  version: number;
+  createdAt: string;
+  title: string;
+  description?: string;
+  /**
+   * The model's note on what changed in this version.
+   */
+  changeSummary?: string;
+  previewHtml: string;
+  fullHtml: string;
+}
+
+export interface StoredArtifact {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /**
+   * Oldest first; `versions[n - 1]` is version `n`.
+   */
+  versions: ArtifactVersion[];
 }
 
 export interface GeneratedFile {
   id: string;
   filename: string;
-  type: "pdf" | "docx" | "txt" | "csv" | "md";
+  type:
+    | "pdf"
+    | "docx"
+    | "xlsx"
+    | "pptx"
+    | "html"
+    | "json"
+    | "txt"
+    | "csv"
+    | "md";
   downloadUrl: string;
+  /**
+   * Signed link for `DELETE`; download links cannot delete the file.
+   */
+  deleteUrl?: string;
   summary?: string;
   storedFilename: string;
 }
 
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+  /**
+   * Id of the last Responses API response, used to chain the next turn with
+   * `previous_response_id` instead of replaying the transcript.
+   */
+  lastResponseId?: string;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export interface DeploymentInfo {
+  /**
+   * Azure deployment name passed as `model` to the Responses API.
+   */
+  name: string;
+  label: string;
+  vision: boolean;
+  reasoning: boolean;
+  /**
+   * Whether the deployment accepts a `temperature` parameter. Reasoning
+   * deployments generally do not.
+   */
+  temperature: boolean;
+  maxOutputTokens: number;
+}
+
 export interface ChatRequestPayload {
+  /**
+   * When set, `messages` holds only the new turn; earlier messages are loaded
+   * from the conversation store and the reply is persisted there.
+   */
+  conversationId?: string;
   messages: Array<{
     id: string;
     role: "system" | "user" | "assistant";
@@ -52,8 +248,58 @@ export interface ChatRequestPayload {
     attachments?: UploadedFileMetadata[];
   }>;
   temperature?: number;
+  /**
+   * Deployment name from the server's deployment registry.
+   */
+  model?: string;
+  reasoningEffort?: ReasoningEffort;
+  maxOutputTokens?: number;
+  /**
+   * When true, the chat route answers with Server-Sent Events instead of a
+   * single JSON payload.
+   */
+  stream?: boolean;
+  /**
+   * Restricts the function tools offered to the model for this request.
+   */
+  tools?: string[];
 }
 
 export interface ChatResponsePayload {
   message: ChatMessage;
 }
+
+/**
+ * Stable error codes returned by `/api/chat`, both as JSON and as SSE `error`
+ * events.
+ */
+export type ChatErrorCode =
+  | "invalid_request"
+  | "rate_limited"
+  | "content_filtered"
+  | "context_length_exceeded"
+  | "auth_error"
+  | "config_error"
+  | "transient"
+  | "unknown";
+
+export interface ChatErrorPayload {
+  error: string;
+  code: ChatErrorCode;
+  retryAfterSeconds?: number;
+  details?: unknown;
+}
+
+export type ChatStreamEvent =
+  | { type: "text_delta"; delta: string }
+  | { type: "tool_call"; callId: string; name: string }
+  | {
+      type: "tool_result";
+      callId: string;
+      name: string;
+      success: boolean;
+      artifact?: Artifact;
+      generatedFile?: GeneratedFile;
+    }
+  | { type: "message"; message: ChatMessage }
+  | ({ type: "error" } & ChatErrorPayload);
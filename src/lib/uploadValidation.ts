@@ -0,0 +1,224 @@
+import path from "node:path";
+import { readPositiveInt } from "@/lib/env";
+import { getExtractableKind, isTextLikeFile } from "@/lib/fileClassification";
+
+export interface UploadLimits {
+  maxFileBytes: number;
+  maxRequestBytes: number;
+  /**
+   * MIME types accepted after sniffing; `type/*` entries match a whole family.
+   */
+  allowedTypes: string[];
+}
+
+const DEFAULT_MAX_FILE_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MAX_REQUEST_BYTES = 50 * 1024 * 1024;
+
+const DEFAULT_ALLOWED_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "text/*",
+  "application/json",
+  "application/xml",
+  "application/yaml",
+];
+
+const OOXML_TYPES = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+} as const;
+
+const TEXT_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+};
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/heic": ".heic",
+  "image/heif": ".heif",
+  "application/pdf": ".pdf",
+  [OOXML_TYPES.docx]: ".docx",
+  [OOXML_TYPES.xlsx]: ".xlsx",
+  [OOXML_TYPES.pptx]: ".pptx",
+  "text/plain": ".txt",
+  "text/markdown": ".md",
+  "text/csv": ".csv",
+  "text/tab-separated-values": ".tsv",
+  "application/json": ".json",
+  "application/xml": ".xml",
+  "application/yaml": ".yaml",
+};
+
+export function getUploadLimits(): UploadLimits {
+  const configuredTypes = (process.env.UPLOAD_ALLOWED_TYPES ?? "")
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    maxFileBytes: readPositiveInt(
+      process.env.UPLOAD_MAX_FILE_BYTES,
+      DEFAULT_MAX_FILE_BYTES,
+    ),
+    maxRequestBytes: readPositiveInt(
+      process.env.UPLOAD_MAX_REQUEST_BYTES,
+      DEFAULT_MAX_REQUEST_BYTES,
+    ),
+    allowedTypes: configuredTypes.length ? configuredTypes : DEFAULT_ALLOWED_TYPES,
+  };
+}
+
+export function isAllowedType(mimeType: string, allowedTypes: string[]) {
+  return allowedTypes.some((allowed) =>
+    allowed.endsWith("/*")
+      ? mimeType.startsWith(allowed.slice(0, -1))
+      : mimeType === allowed,
+  );
+}
+
+/**
+ * Identifies a file from its leading bytes. Returns `"application/zip"` for
+ * any ZIP container (OOXML documents included) and `"text/plain"` for
+ * NUL-free UTF-8; `null` means an unrecognised binary.
+ */
+export function sniffMimeType(buffer: Buffer): string | null {
+  const startsWith = (bytes: number[], offset = 0) =>
+    bytes.every((byte, index) => buffer[offset + index] === byte);
+  const ascii = (start: number, end: number) =>
+    buffer.subarray(start, end).toString("latin1");
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (["heic", "heix", "hevc", "hevx", "heim", "heis"].includes(brand)) {
+      return "image/heic";
+    }
+    if (brand === "mif1" || brand === "msf1") return "image/heif";
+  }
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (startsWith([0x50, 0x4b, 0x03, 0x04])) return "application/zip";
+
+  const head = buffer.subarray(0, 8192);
+  if (!head.includes(0) && isUtf8Prefix(head)) return "text/plain";
+
+  return null;
+}
+
+/**
+ * Checks the browser-declared type against the file's content and returns the
+ * MIME type the server should trust, or a rejection for mismatches.
+ */
+export function resolveUploadType(
+  buffer: Buffer,
+  declaredType: string,
+  filename: string,
+): { mimeType: string } | { code: "type_mismatch"; reason: string } {
+  const declared = declaredType.toLowerCase();
+  const sniffed = sniffMimeType(buffer);
+  const mismatch = (actual: string) => ({
+    code: "type_mismatch" as const,
+    reason: `Declared as ${declared || "unknown type"} but the content looks like ${actual}.`,
+  });
+
+  if (sniffed === "application/zip") {
+    const kind = getExtractableKind(declared, filename);
+    if (kind && kind !== "pdf") return { mimeType: OOXML_TYPES[kind] };
+    return declared === "application/zip" || declared.endsWith("+zip")
+      ? { mimeType: "application/zip" }
+      : mismatch("a ZIP archive");
+  }
+
+  if (sniffed === "text/plain") {
+    if (
+      declared &&
+      !declared.startsWith("text/") &&
+      !isTextLikeFile(declared, filename) &&
+      declared !== "application/octet-stream"
+    ) {
+      return mismatch("plain text");
+    }
+    const extensionType =
+      TEXT_TYPES_BY_EXTENSION[path.extname(filename).toLowerCase()];
+    return {
+      mimeType:
+        declared && declared !== "application/octet-stream"
+          ? declared
+          : (extensionType ?? "text/plain"),
+    };
+  }
+
+  if (sniffed) {
+    const family = sniffed.split("/")[0];
+    const declaredMatches =
+      !declared ||
+      declared === "application/octet-stream" ||
+      declared === sniffed ||
+      (family === "image" && declared.startsWith("image/"));
+    return declaredMatches ? { mimeType: sniffed } : mismatch(sniffed);
+  }
+
+  // Unrecognised binary content must not claim to be a type we inspect.
+  if (
+    declared.startsWith("image/") ||
+    declared.startsWith("text/") ||
+    declared === "application/pdf" ||
+    getExtractableKind(declared, filename)
+  ) {
+    return mismatch("unrecognised binary data");
+  }
+
+  return { mimeType: "application/octet-stream" };
+}
+
+/**
+ * Extension for the stored copy. Other text types (HTML included) are stored
+ * as `.txt`, and unknown types get no extension, so the static file server
+ * never renders an upload as markup or script.
+ */
+export function extensionForType(mimeType: string) {
+  return (
+    EXTENSIONS_BY_TYPE[mimeType] ?? (mimeType.startsWith("text/") ? ".txt" : "")
+  );
+}
+
+function isUtf8Prefix(bytes: Buffer) {
+  // A multi-byte sequence may be cut at the sample boundary; ignore its tail.
+  let end = bytes.length;
+  for (let back = 1; back <= 3 && end - back >= 0; back += 1) {
+    const byte = bytes[end - back];
+    if ((byte & 0xc0) === 0xc0) {
+      end -= back;
+      break;
+    }
+    if ((byte & 0x80) === 0) break;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes.subarray(0, end));
+    return true;
+  } catch {
+    return false;
+  }
+}
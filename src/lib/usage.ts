@@ -0,0 +1,49 @@
+import type { ResponseUsage } from "openai/resources/responses/responses";
+import { TokenUsage } from "@/lib/types";
+
+export function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+  };
+}
+
+export function addResponseUsage(
+  total: TokenUsage,
+  usage: ResponseUsage | null | undefined,
+): TokenUsage {
+  if (!usage) return total;
+
+  return {
+    ...total,
+    inputTokens: total.inputTokens + usage.input_tokens,
+    cachedInputTokens:
+      total.cachedInputTokens + (usage.input_tokens_details?.cached_tokens ?? 0),
+    outputTokens: total.outputTokens + usage.output_tokens,
+    reasoningTokens:
+      total.reasoningTokens +
+      (usage.output_tokens_details?.reasoning_tokens ?? 0),
+    totalTokens: total.totalTokens + usage.total_tokens,
+  };
+}
+
+/**
+ * Adds two usage records. The cost is only kept when both sides have one, so
+ * a total never silently under-reports unpriced turns.
+ */
+export function sumUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    estimatedCostUsd:
+      a.estimatedCostUsd !== undefined && b.estimatedCostUsd !== undefined
+        ? a.estimatedCostUsd + b.estimatedCostUsd
+        : undefined,
+  };
+}